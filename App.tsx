@@ -7,57 +7,142 @@ import { TechnicalSkills } from './components/TechnicalSkills';
 import { FeedbackPatch } from './components/FeedbackPatch';
 import { Interruption } from './components/Interruption';
 import { PreviewModal } from './components/PreviewModal';
-import { AppState, FeedbackPatchInfo, INITIAL_STATE, InterruptionItem, InterruptionRecords } from './types';
-import { exportRecordCsv, exportRecordExcel, validateRecord } from './services/recordExport';
+import { CaseLibrary } from './components/CaseLibrary';
+import { SettingsModal } from './components/SettingsModal';
+import { OutboxPanel } from './components/OutboxPanel';
+import { AedLogImport } from './components/AedLogImport';
+import { CprStreamImport } from './components/CprStreamImport';
+import { AppSettings, AppState, CaseSummary, OutboxEntry, FeedbackPatchInfo, INITIAL_STATE, InterruptionItem, InterruptionRecords, InterruptionTimeBase, RosterShift, EmtTimeField, TimeSource, PersonnelCalibration, TimeCalibration as TimeCalibrationPair } from './types';
+import {
+  BatchExportItem,
+  BatchInvalidMode,
+  exportRecordCsv,
+  exportRecordExcel,
+  exportRecordsCsv,
+  exportRecordsExcel,
+  validateRecord,
+} from './services/recordExport';
+import { importRecordsCsv } from './services/recordImport';
+import { AedLogField, applyAedTimes } from './services/aedLog';
+import { addInterruption, changeTimeBase, moveInterruption, removeInterruption, validateInterruptions } from './services/interruptions';
+import { FieldTarget, FormTab, fieldElementId, validateFeedbackPatch } from './services/validationRules';
+import { exportCaseFile, parseCaseFile } from './services/caseFile';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings } from './services/settings';
+import { processOutbox, recoverInterruptedSends, removeOutboxEntry, retryOutboxEntry, subscribeOutbox } from './services/outbox';
+import {
+  MEMBER_FIELDS,
+  applyRosterShift,
+  findOnDutyShifts,
+  getIncidentTime,
+  loadRoster,
+  mergeRoster,
+  parseRosterCsv,
+  setCrewMember,
+} from './services/roster';
+import {
+  createBlankState,
+  createCase,
+  deleteCase,
+  duplicateCase,
+  listCases,
+  loadCase,
+  openInitialCase,
+  saveCase,
+  setCaseArchived,
+  setCurrentCaseId,
+} from './services/caseLibrary';
+
+// How often due retries in the submission queue are checked
+const OUTBOX_POLL_MS = 30 * 1000;
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState(0);
+  const [openCaseId, setOpenCaseId] = useState<string | null>(null);
   const [data, setData] = useState<AppState>(INITIAL_STATE);
   const [showPreview, setShowPreview] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [cases, setCases] = useState<CaseSummary[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [showOutbox, setShowOutbox] = useState(false);
+  const [outboxErrors, setOutboxErrors] = useState<Record<string, string>>({});
+  const [aedLog, setAedLog] = useState<{ text: string; fileName: string } | null>(null);
+  const [cprStream, setCprStream] = useState<{ text: string; fileName: string } | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [roster, setRoster] = useState<RosterShift[]>([]);
+  const [focusTarget, setFocusTarget] = useState<FieldTarget | null>(null);
 
-  // Load from local storage for persistence on refresh
   useEffect(() => {
-    const saved = localStorage.getItem('ohca-app-state-v6') || localStorage.getItem('ohca-app-state-v5') || localStorage.getItem('ohca-app-state-v4') || localStorage.getItem('ohca-app-state-v3');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        
-        // Safety check for padsOn type migration (object -> string)
-        let safePadsOn = '';
-        if (parsed.timeRecords && typeof parsed.timeRecords.padsOn === 'string') {
-            safePadsOn = parsed.timeRecords.padsOn;
-        }
+    if (!focusTarget) return;
+    const element = document.getElementById(fieldElementId(focusTarget));
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      element.focus({ preventScroll: true });
+    }
+    setFocusTarget(null);
+  }, [focusTarget, activeTab]);
 
-        // Merge with initial state to ensure new fields exist
-        setData({
-            ...INITIAL_STATE,
-            ...parsed,
-            timeRecords: {
-                ...INITIAL_STATE.timeRecords,
-                ...parsed.timeRecords,
-                padsOn: safePadsOn // Ensure string type
-            },
-            interruptionRecords: parsed.interruptionRecords || INITIAL_STATE.interruptionRecords,
-            basicInfo: { ...INITIAL_STATE.basicInfo, ...parsed.basicInfo },
-            technicalInfo: { ...INITIAL_STATE.technicalInfo, ...parsed.technicalInfo },
-            feedbackPatchInfo: { ...INITIAL_STATE.feedbackPatchInfo, ...parsed.feedbackPatchInfo }
-        });
-      } catch (e) {
+  // Restore the last edited case from the case library for persistence on refresh
+  useEffect(() => {
+    openInitialCase()
+      .then(({ id, state }) => {
+        setOpenCaseId(id);
+        setData(state);
+      })
+      .catch((e) => {
         console.error("Failed to load state", e);
-      }
-    }
+        alert('無法開啟案件庫，請確認瀏覽器允許網站儲存資料');
+      });
+  }, []);
+
+  useEffect(() => {
+    loadSettings()
+      .then(setSettings)
+      .catch(e => console.error("Failed to load settings", e));
   }, []);
 
   useEffect(() => {
-    localStorage.setItem('ohca-app-state-v6', JSON.stringify(data));
-  }, [data]);
+    loadRoster()
+      .then(setRoster)
+      .catch(e => console.error("Failed to load roster", e));
+  }, []);
+
+  // Keep the submission queue moving: on start, when the connection returns, and periodically for backoff
+  useEffect(() => {
+    const unsubscribe = subscribeOutbox(setOutbox);
+    recoverInterruptedSends()
+      .then(processOutbox)
+      .catch(e => console.error("Failed to start outbox", e));
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      processOutbox();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    const timer = window.setInterval(processOutbox, OUTBOX_POLL_MS);
 
-  const updateCalibration = (key: any, field: any, value: string) => {
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.clearInterval(timer);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!openCaseId) return;
+    saveCase(openCaseId, data).catch(e => console.error("Failed to save state", e));
+  }, [openCaseId, data]);
+
+  const updateCalibration = (key: keyof PersonnelCalibration, pairs: TimeCalibrationPair[]) => {
     setData(prev => ({
       ...prev,
       calibration: {
         ...prev.calibration,
-        [key]: { ...prev.calibration[key as keyof typeof prev.calibration], [field]: value }
+        [key]: pairs
       }
     }));
   };
@@ -83,6 +168,55 @@ const App: React.FC = () => {
     });
   };
 
+  const updateTimeSource = (field: EmtTimeField, source: TimeSource) => {
+    setData(prev => ({ ...prev, timeSources: { ...prev.timeSources, [field]: source } }));
+  };
+
+  const handleImportAedLog = async (file: File) => {
+    try {
+      setAedLog({ text: await file.text(), fileName: file.name });
+    } catch (e) {
+      console.error('Failed to read AED log', e);
+      alert(`無法讀取 AED 事件紀錄：${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const handleApplyAedTimes = (times: Partial<Record<AedLogField, string>>) => {
+    setData(prev => applyAedTimes(prev, times));
+    setAedLog(null);
+  };
+
+  const handleImportCprStream = async (file: File) => {
+    try {
+      setCprStream({ text: await file.text(), fileName: file.name });
+    } catch (e) {
+      console.error('Failed to read CPR stream', e);
+      alert(`無法讀取按壓紀錄：${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const handleApplyCprStream = (interruptionRecords: InterruptionRecords) => {
+    setData(prev => ({ ...prev, interruptionRecords }));
+    setCprStream(null);
+  };
+
+  const handleAddInterruption = (section: keyof InterruptionRecords) => {
+    setData(prev => ({ ...prev, interruptionRecords: addInterruption(prev.interruptionRecords, section) }));
+  };
+
+  const handleRemoveInterruption = (section: keyof InterruptionRecords, index: number) => {
+    setData(prev => ({ ...prev, interruptionRecords: removeInterruption(prev.interruptionRecords, section, index) }));
+  };
+
+  const handleMoveInterruption = (section: keyof InterruptionRecords, index: number, direction: -1 | 1) => {
+    setData(prev => ({ ...prev, interruptionRecords: moveInterruption(prev.interruptionRecords, section, index, direction) }));
+  };
+
+  // Switching between video and AED clock rewrites the entries so they keep their instants
+  const updateInterruptionTimeBase = (interruptionTimeBase: InterruptionTimeBase) => {
+    setData(prev => ({ ...prev, interruptionRecords: changeTimeBase(prev, interruptionTimeBase), interruptionTimeBase }));
+  };
+
   const updateInterruption = (section: keyof InterruptionRecords, index: number, field: keyof InterruptionItem, value: string) => {
     setData(prev => {
         const list = [...prev.interruptionRecords[section]];
@@ -98,9 +232,28 @@ const App: React.FC = () => {
   };
 
   const updateBasic = (field: any, value: any) => {
+    if ((MEMBER_FIELDS as readonly string[]).includes(field)) {
+      setData(prev => setCrewMember(prev, field, value));
+      return;
+    }
     setData(prev => ({ ...prev, basicInfo: { ...prev.basicInfo, [field]: value } }));
   };
 
+  const handleApplyShift = (shift: RosterShift) => {
+    setData(prev => applyRosterShift(prev, shift));
+  };
+
+  const handleImportRoster = async (file: File) => {
+    try {
+      const { shifts, problems } = parseRosterCsv(await file.text());
+      setRoster(await mergeRoster(shifts));
+      alert([`已匯入 ${shifts.length} 個班次`, ...(problems.length > 0 ? ['', '略過：', ...problems] : [])].join('\n'));
+    } catch (e) {
+      console.error('Failed to import roster', e);
+      alert(`班表匯入失敗：${e instanceof Error ? e.message : e}`);
+    }
+  };
+
   const updateTechnical = (field: any, value: any) => {
     setData(prev => ({ ...prev, technicalInfo: { ...prev.technicalInfo, [field]: value } }));
   };
@@ -118,9 +271,9 @@ const App: React.FC = () => {
 
     const format = window.confirm("按「確定」匯出 Excel，按「取消」匯出 CSV。");
     if (format) {
-      exportRecordExcel(data);
+      exportRecordExcel(data, settings.thresholds);
     } else {
-      exportRecordCsv(data);
+      exportRecordCsv(data, settings.thresholds);
     }
   };
 
@@ -128,70 +281,191 @@ const App: React.FC = () => {
       // Logic handled in PreviewModal
   };
 
-  const handleReset = () => {
-    if (window.confirm("確定要建立新案件嗎？\n\n這將會清除目前所有已輸入的資料，但保留審核者、大隊別與分隊資料。")) {
-      // Reset to initial state, but ensure date is today and preserve specific fields
-      const freshState: AppState = {
-        ...INITIAL_STATE,
-        basicInfo: {
-          ...INITIAL_STATE.basicInfo,
-          date: new Date().toISOString().split('T')[0],
-          // Preserve these fields
-          reviewer: data.basicInfo.reviewer,
-          battalion: data.basicInfo.battalion,
-          unit: data.basicInfo.unit,
-        },
-        // Re-create interruption arrays to ensure clean state
-        interruptionRecords: {
-          beforePads: Array(5).fill(null).map((_, i) => ({ id: i.toString(), start: '', end: '', reason: '' })),
-          beforeMcpr: Array(10).fill(null).map((_, i) => ({ id: i.toString(), start: '', end: '', reason: '' })),
-        },
-        timeRecords: {
-            found: { emt1: '', emt2: '', emt3: '' },
-            contact: { emt1: '', emt2: '', emt3: '' },
-            ohcaJudgment: { emt1: '', emt2: '', emt3: '' },
-            cprStart: { emt1: '', emt2: '', emt3: '' },
-            powerOn: '',
-            padsOn: '',
-            firstVentilation: { emt1: '', emt2: '', emt3: '' },
-            mcprSetup: { emt1: '', emt2: '', emt3: '' },
-            firstMed: { emt1: '', emt2: '', emt3: '' },
-            airway: { emt1: '', emt2: '', emt3: '' }, // Reset new field
-            aedOff: '',
-            rosc: { emt1: '', emt2: '', emt3: '' },
-            firstShock: '',
-        },
-        calibration: {
-            emt1: { keyTime: '', aedTime: '' },
-            emt2: { keyTime: '', aedTime: '' },
-            emt3: { keyTime: '', aedTime: '' },
-        },
-        technicalInfo: {
-            ...INITIAL_STATE.technicalInfo,
-            checkPulse: '',
-            useCompressor: '',
-            initialRhythm: '',
-            postShockRhythm: '',
-            endoAttempts: 0,
-            airwayDevice: '',
-            airwayInterruptionSeconds: '',
-            etco2Used: '', // Reset to empty string (Please Select)
-            etco2Value: '',
-            prehospitalEcmo: '',
-            ivOperator: '',
-            ioOperator: '',
-            endoOperator: '',
-            teamLeader: '',
-            aedPadCorrect: '',
-        },
-        feedbackPatchInfo: INITIAL_STATE.feedbackPatchInfo
-      };
-      setData(freshState);
-      setActiveTab(0);
-      window.scrollTo(0, 0);
+  const switchCase = async (id: string, state: AppState) => {
+    await setCurrentCaseId(id);
+    setOpenCaseId(id);
+    setData(state);
+    setActiveTab(0);
+    window.scrollTo(0, 0);
+  };
+
+  const refreshCases = async () => setCases(await listCases());
+
+  const handleOpenLibrary = async () => {
+    if (!openCaseId) return;
+    // Flush the case being edited so its summary in the list is current
+    await saveCase(openCaseId, data);
+    await refreshCases();
+    setShowLibrary(true);
+  };
+
+  const handleOpenCase = async (id: string) => {
+    const state = await loadCase(id);
+    if (!state) {
+      alert('無法讀取此案件');
+      return;
+    }
+    await switchCase(id, state);
+    setShowLibrary(false);
+  };
+
+  const handleDuplicateCase = async (id: string) => {
+    if (!(await duplicateCase(id))) alert('無法複製此案件');
+    await refreshCases();
+  };
+
+  const handleArchiveCase = async (id: string, archived: boolean) => {
+    await setCaseArchived(id, archived);
+    await refreshCases();
+  };
+
+  const handleDeleteCase = async (id: string) => {
+    await deleteCase(id);
+    if (id === openCaseId) {
+      // Keep editing something: the most recent active case, or a fresh one
+      const next = (await listCases()).find(entry => !entry.archived);
+      const nextState = next ? await loadCase(next.id) : null;
+      if (next && nextState) {
+        await switchCase(next.id, nextState);
+      } else {
+        const freshState = createBlankState();
+        await switchCase(await createCase(freshState), freshState);
+      }
     }
+    await refreshCases();
   };
 
+  const handleBatchExport = async (ids: string[]) => {
+    const items: BatchExportItem[] = [];
+    for (const id of ids) {
+      const state = id === openCaseId ? data : await loadCase(id);
+      if (state) items.push({ id, state });
+    }
+    if (items.length === 0) return;
+
+    const invalidCount = items.filter(item => !validateRecord(item.state).isValid).length;
+    const invalidMode: BatchInvalidMode = invalidCount > 0 && window.confirm(
+      `選取的 ${items.length} 件中有 ${invalidCount} 件未通過檢核。\n\n按「確定」一併匯出並於最後一欄標註問題，按「取消」略過這些案件。`
+    ) ? 'flag' : 'skip';
+
+    const format = window.confirm("按「確定」匯出 Excel，按「取消」匯出 CSV。");
+    const result = format ? exportRecordsExcel(items, invalidMode, settings.thresholds) : exportRecordsCsv(items, invalidMode, settings.thresholds);
+
+    const lines = [`已匯出 ${result.exportedCount} 件。`];
+    if (result.issues.length > 0) {
+      lines.push('', invalidMode === 'skip' ? '以下案件未通過檢核，已略過：' : '以下案件未通過檢核，已標註：');
+      result.issues.forEach(issue => lines.push(`・${issue.caseId || '未填案件編號'}（${issue.problems.length} 項問題）`));
+    }
+    alert(lines.join('\n'));
+  };
+
+  const handleDownloadCase = async (id: string) => {
+    const state = id === openCaseId ? data : await loadCase(id);
+    if (!state) {
+      alert('無法讀取此案件');
+      return;
+    }
+    await exportCaseFile(state);
+  };
+
+  const handleImportFile = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (e) {
+      alert(`無法讀取檔案：${e instanceof Error ? e.message : e}`);
+      return;
+    }
+
+    if (file.name.toLowerCase().endsWith('.json')) {
+      try {
+        const state = await parseCaseFile(text);
+        await createCase(state);
+        await refreshCases();
+        alert(`已匯入案件 ${state.basicInfo.caseId || '（未填案件編號）'}`);
+      } catch (e) {
+        alert(`無法匯入案件檔：${e instanceof Error ? e.message : e}`);
+      }
+      return;
+    }
+
+    let result: ReturnType<typeof importRecordsCsv>;
+    try {
+      result = importRecordsCsv(text);
+    } catch (e) {
+      alert(`無法解析 CSV：${e instanceof Error ? e.message : e}`);
+      return;
+    }
+    const { cases: imported, unmappedColumns } = result;
+    if (imported.length === 0) {
+      alert('檔案中沒有可匯入的案件資料');
+      return;
+    }
+
+    let createdCount = 0;
+    try {
+      for (const item of imported) {
+        await createCase(item.state);
+        createdCount += 1;
+      }
+      await refreshCases();
+    } catch (e) {
+      console.error("Failed to import CSV cases", e);
+      alert(`匯入中斷，已匯入 ${createdCount} / ${imported.length} 件：${e instanceof Error ? e.message : e}`);
+      refreshCases().catch(err => console.error("Failed to refresh cases", err));
+      return;
+    }
+
+    const lines = [`已匯入 ${imported.length} 件案件，請開啟後補齊未能還原的欄位（例如發現患者時間、人員）。`];
+    if (unmappedColumns.length > 0) {
+      lines.push('', '以下欄位無法還原：', ...unmappedColumns.map(column => `・${column}`));
+    }
+    imported.filter(item => item.warnings.length > 0).forEach(item => {
+      lines.push('', `第 ${item.row} 列：`, ...item.warnings.map(warning => `・${warning}`));
+    });
+    alert(lines.join('\n'));
+  };
+
+  const handleSaveSettings = async (next: AppSettings) => {
+    try {
+      await saveSettings(next);
+      setSettings(next);
+      setShowSettings(false);
+    } catch (e) {
+      console.error("Failed to save settings", e);
+      alert('設定儲存失敗');
+    }
+  };
+
+  const handleReset = async () => {
+    if (window.confirm("確定要建立新案件嗎？\n\n目前案件會保留在案件庫中，新案件將保留審核者、大隊別與分隊資料。")) {
+      // Preserve these fields
+      const freshState = createBlankState({
+        reviewer: data.basicInfo.reviewer,
+        battalion: data.basicInfo.battalion,
+        unit: data.basicInfo.unit,
+      });
+      await switchCase(await createCase(freshState), freshState);
+    }
+  };
+
+  // A queue action that fails (storage unavailable) is reported on its entry, where upload errors show
+  const runOutboxAction = async (id: string, failure: string, action: () => Promise<void>) => {
+    setOutboxErrors(prev => ({ ...prev, [id]: '' }));
+    try {
+      await action();
+    } catch (e) {
+      console.error(failure, e);
+      setOutboxErrors(prev => ({ ...prev, [id]: `${failure}：${e instanceof Error ? e.message : e}` }));
+    }
+  };
+
+  const handleRetryOutbox = (entry: OutboxEntry) => runOutboxAction(entry.id, '無法重試上傳', () => retryOutboxEntry(entry));
+
+  const handleRemoveOutbox = (id: string) => runOutboxAction(id, '無法取消上傳', () => removeOutboxEntry(id));
+
+  const waitingCount = outbox.filter(entry => entry.status !== 'sent').length;
+
   // Extract crew members for dropdowns
   const crewMembers = [
     data.basicInfo.member1,
@@ -202,20 +476,55 @@ const App: React.FC = () => {
     data.basicInfo.member6
   ].filter(m => m && m.trim().length > 0);
 
-  const tabs = [
-    { title: '基本資料', icon: 'fa-file-medical', component: <BasicInfo info={data.basicInfo} onChange={updateBasic} /> },
+  const tabs: { id: FormTab; title: string; icon: string; component: React.ReactNode }[] = [
+    {
+      id: 'basicInfo',
+      title: '基本資料',
+      icon: 'fa-file-medical',
+      component: <BasicInfo
+        info={data.basicInfo}
+        onChange={updateBasic}
+        timeZone={data.timeZone}
+        onTimeZoneChange={(timeZone) => setData(prev => ({ ...prev, timeZone }))}
+        crewRoster={data.crewRoster}
+        rosterSize={roster.length}
+        onDutyShifts={findOnDutyShifts(roster, data)}
+        hasIncidentTime={getIncidentTime(data) !== null}
+        onApplyShift={handleApplyShift}
+        onImportRoster={handleImportRoster}
+      />
+    },
     { 
+        id: 'calibration',
         title: '時間校正', 
         icon: 'fa-clock', 
         component: <TimeCalibration 
             calibration={data.calibration} 
             onChange={updateCalibration} 
             defaultDate={data.basicInfo.date} 
+            timeZone={data.timeZone}
         /> 
     },
-    { title: '時間紀錄', icon: 'fa-stopwatch', component: <TimeRecording data={data} onChange={updateTimeRecord} /> },
-    { title: '中斷時間', icon: 'fa-pause-circle', component: <Interruption records={data.interruptionRecords} onChange={updateInterruption} /> },
+    { id: 'timeRecords', title: '時間紀錄', icon: 'fa-stopwatch', component: <TimeRecording data={data} onChange={updateTimeRecord} onSourceChange={updateTimeSource} onImportAedLog={handleImportAedLog} /> },
+    {
+      id: 'interruptions',
+      title: '中斷時間',
+      icon: 'fa-pause-circle',
+      component: <Interruption
+        records={data.interruptionRecords}
+        timeBase={data.interruptionTimeBase}
+        caseDate={data.basicInfo.date}
+        issues={validateInterruptions(data)}
+        onChange={updateInterruption}
+        onAdd={handleAddInterruption}
+        onRemove={handleRemoveInterruption}
+        onMove={handleMoveInterruption}
+        onImportCprStream={handleImportCprStream}
+        onTimeBaseChange={updateInterruptionTimeBase}
+      />
+    },
     { 
+      id: 'technicalInfo',
       title: '處置認列', 
       icon: 'fa-stethoscope', 
       component: <TechnicalSkills 
@@ -227,11 +536,21 @@ const App: React.FC = () => {
       /> 
     },
     {
+      id: 'feedbackPatch',
       title: '回饋貼片',
       icon: 'fa-wave-square',
-      component: <FeedbackPatch info={data.feedbackPatchInfo} onChange={updateFeedbackPatch} />
+      component: <FeedbackPatch info={data.feedbackPatchInfo} issues={validateFeedbackPatch(data)} onChange={updateFeedbackPatch} />
     },
   ];
+
+  // From a preview message to the input it is about: the tab is shown first, the input focused once it renders
+  const handleJumpTo = (target: FieldTarget) => {
+    const index = tabs.findIndex(tab => tab.id === target.tab);
+    if (index < 0) return;
+    setShowPreview(false);
+    setActiveTab(index);
+    setFocusTarget(target);
+  };
 
   return (
     <div className="min-h-screen pb-24 bg-[#F4F6F8] text-medical-600">
@@ -254,6 +573,12 @@ const App: React.FC = () => {
             </div>
         </div>
         <div className="flex gap-2">
+            <button
+                onClick={handleOpenLibrary}
+                className="bg-white/10 text-white border border-white/25 px-3 py-2 rounded-lg text-sm font-semibold hover:bg-white/20 transition-colors flex items-center"
+            >
+                <i className="fas fa-folder-open mr-1"></i> <span className="inline">案件庫</span>
+            </button>
             <button 
                 onClick={handleReset}
                 className="bg-white/10 text-white border border-white/25 px-3 py-2 rounded-lg text-sm font-semibold hover:bg-white/20 transition-colors flex items-center"
@@ -272,6 +597,27 @@ const App: React.FC = () => {
             >
                 送出 <i className="fas fa-paper-plane ml-2"></i>
             </button>
+            <button
+                onClick={() => setShowOutbox(true)}
+                className="relative bg-white/10 text-white border border-white/25 px-3 py-2 rounded-lg text-sm font-semibold hover:bg-white/20 transition-colors flex items-center"
+                title="待送佇列"
+                aria-label={`待送佇列，${waitingCount} 筆未送出`}
+            >
+                <i className="fas fa-inbox"></i>
+                {waitingCount > 0 && (
+                    <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-accent-500 text-medical-900 text-[10px] font-bold flex items-center justify-center">
+                        {waitingCount}
+                    </span>
+                )}
+            </button>
+            <button
+                onClick={() => setShowSettings(true)}
+                className="bg-white/10 text-white border border-white/25 px-3 py-2 rounded-lg text-sm font-semibold hover:bg-white/20 transition-colors flex items-center"
+                title="上傳設定與品管目標"
+                aria-label="上傳設定與品管目標"
+            >
+                <i className="fas fa-cog"></i>
+            </button>
         </div>
       </header>
 
@@ -314,8 +660,71 @@ const App: React.FC = () => {
       {showPreview && (
         <PreviewModal 
             data={data} 
+            caseKey={openCaseId || ''}
+            settings={settings}
             onClose={() => setShowPreview(false)} 
             onSubmit={handleSubmitToGoogleSheet} 
+            onJumpTo={handleJumpTo}
+        />
+      )}
+
+      {/* Submission Queue */}
+      {showOutbox && (
+        <OutboxPanel
+            entries={outbox}
+            isOnline={isOnline}
+            actionErrors={outboxErrors}
+            onRetry={handleRetryOutbox}
+            onRemove={handleRemoveOutbox}
+            onClose={() => setShowOutbox(false)}
+        />
+      )}
+
+      {/* AED Event Log Import */}
+      {aedLog && (
+        <AedLogImport
+            text={aedLog.text}
+            fileName={aedLog.fileName}
+            caseDate={data.basicInfo.date}
+            timeRecords={data.timeRecords}
+            onApply={handleApplyAedTimes}
+            onClose={() => setAedLog(null)}
+        />
+      )}
+
+      {/* CPR Event Stream Import */}
+      {cprStream && (
+        <CprStreamImport
+            text={cprStream.text}
+            fileName={cprStream.fileName}
+            data={data}
+            onApply={handleApplyCprStream}
+            onClose={() => setCprStream(null)}
+        />
+      )}
+
+      {/* Upload Settings */}
+      {showSettings && (
+        <SettingsModal
+            settings={settings}
+            onSave={handleSaveSettings}
+            onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {/* Case Library */}
+      {showLibrary && (
+        <CaseLibrary
+            cases={cases}
+            currentId={openCaseId || ''}
+            onOpen={handleOpenCase}
+            onDuplicate={handleDuplicateCase}
+            onDownload={handleDownloadCase}
+            onArchive={handleArchiveCase}
+            onDelete={handleDeleteCase}
+            onExport={handleBatchExport}
+            onImport={handleImportFile}
+            onClose={() => setShowLibrary(false)}
         />
       )}
     </div>
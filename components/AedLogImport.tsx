@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { TimeRecord } from '../types';
+import { AED_LOG_ADAPTERS, AedEventType, AedLogField, formatLogTime, mapAedEvents, parseAedLog } from '../services/aedLog';
+import { TIME_FIELD_LABELS } from '../constants';
+
+interface Props {
+  text: string;
+  fileName: string;
+  caseDate: string;
+  timeRecords: TimeRecord;
+  onApply: (times: Partial<Record<AedLogField, string>>) => void;
+  onClose: () => void;
+}
+
+const EVENT_LABELS: Record<AedEventType, string> = {
+  powerOn: '開機',
+  padsConnected: '貼片連接',
+  analysis: '分析',
+  shock: '電擊',
+  powerOff: '關機',
+  other: '其他',
+};
+
+export const AedLogImport: React.FC<Props> = ({ text, fileName, caseDate, timeRecords, onApply, onClose }) => {
+  const [adapterId, setAdapterId] = useState(''); // Empty: detect the format
+  const [skipped, setSkipped] = useState<AedLogField[]>([]);
+
+  const { parsed, error } = useMemo(() => {
+    try {
+      return { parsed: parseAedLog(text, { caseDate }, adapterId || undefined), error: '' };
+    } catch (e) {
+      return { parsed: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [text, caseDate, adapterId]);
+
+  const mapping = useMemo(() => (parsed ? mapAedEvents(parsed.events) : []), [parsed]);
+  const selected = mapping.filter(item => item.event && !skipped.includes(item.field));
+
+  const toggleField = (field: AedLogField) => {
+    setSkipped(prev => (prev.includes(field) ? prev.filter(f => f !== field) : [...prev, field]));
+  };
+
+  const handleApply = () => {
+    const times: Partial<Record<AedLogField, string>> = {};
+    selected.forEach(item => {
+      times[item.field] = item.event!.time;
+    });
+    onApply(times);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white w-full max-w-lg sm:rounded-2xl rounded-t-2xl shadow-2xl max-h-[90vh] flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-white border-b border-slate-100 p-4 flex justify-between items-center shrink-0 z-10">
+          <h2 className="text-lg font-bold text-medical-600 flex items-center">
+            <i className="fas fa-heartbeat text-accent-600 mr-2"></i>
+            匯入 AED 事件紀錄
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors p-2 -mr-2">
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-4 space-y-4 overflow-y-auto flex-1">
+          <div className="text-xs text-slate-500 break-all">
+            <i className="fas fa-file-alt mr-1"></i>{fileName}
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1">紀錄格式</label>
+            <select
+              value={adapterId}
+              onChange={(e) => setAdapterId(e.target.value)}
+              className="w-full text-sm p-2 border border-medical-100 rounded bg-white outline-none focus:ring-2 focus:ring-medical-500"
+            >
+              <option value="">自動判斷{parsed && !adapterId ? ` (${parsed.adapter.name})` : ''}</option>
+              {AED_LOG_ADAPTERS.map(adapter => (
+                <option key={adapter.id} value={adapter.id}>{adapter.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-600 rounded-lg p-3 text-sm">
+              <i className="fas fa-exclamation-triangle mr-1"></i>{error}
+            </div>
+          )}
+
+          {parsed && (
+            <>
+              <div>
+                <h3 className="text-sm font-bold text-medical-600 mb-2">帶入欄位 (AED 時間，免校正)</h3>
+                <div className="space-y-2">
+                  {mapping.map(({ field, event }) => {
+                    const current = timeRecords[field];
+                    const overwrites = !!event && !!current && current !== event.time;
+                    return (
+                      <label
+                        key={field}
+                        className={`flex items-start gap-3 p-3 rounded-lg border text-sm ${event ? 'border-medical-100 bg-white' : 'border-slate-100 bg-slate-50 text-slate-400'}`}
+                      >
+                        <input
+                          type="checkbox"
+                          className="mt-1"
+                          checked={!!event && !skipped.includes(field)}
+                          disabled={!event}
+                          onChange={() => toggleField(field)}
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="font-bold text-medical-600">{TIME_FIELD_LABELS[field]}</div>
+                          {event ? (
+                            <>
+                              <div className="font-mono text-slate-800">{formatLogTime(event.time)}</div>
+                              <div className="text-[10px] text-slate-400 truncate">第 {event.line} 行：{event.label}</div>
+                            </>
+                          ) : (
+                            <div className="text-xs">紀錄中沒有對應事件</div>
+                          )}
+                          {overwrites && (
+                            <div className="text-[10px] text-red-500 mt-1">將取代目前的 {formatLogTime(current)}</div>
+                          )}
+                        </div>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-bold text-medical-600 mb-2">辨識的事件 ({parsed.events.length})</h3>
+                <div className="bg-medical-50 rounded-lg border border-medical-100 p-2 max-h-48 overflow-y-auto text-[11px] font-mono space-y-0.5">
+                  {parsed.events.map(event => (
+                    <div key={event.line} className="flex gap-2">
+                      <span className="text-slate-500 shrink-0">{formatLogTime(event.time)}</span>
+                      <span className={`shrink-0 w-14 ${event.type === 'other' ? 'text-slate-400' : 'text-medical-600 font-bold'}`}>
+                        {EVENT_LABELS[event.type]}
+                      </span>
+                      <span className="text-slate-600 truncate">{event.label}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {parsed.problems.length > 0 && (
+                <div className="bg-accent-50 border border-accent-200 text-medical-600 rounded-lg p-3 text-xs space-y-1">
+                  <div className="font-bold">略過的行：</div>
+                  {parsed.problems.map((problem, i) => <div key={i}>{problem}</div>)}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="bg-white border-t border-slate-100 p-4 flex gap-3 shrink-0 z-10">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={selected.length === 0}
+            className={`flex-[2] py-3 rounded-xl font-bold transition-colors shadow-lg
+              ${selected.length > 0 ? 'bg-accent-500 text-medical-900 hover:bg-accent-600' : 'bg-slate-200 text-slate-400 cursor-not-allowed shadow-none'}`}
+          >
+            帶入 {selected.length} 個時間
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
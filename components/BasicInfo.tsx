@@ -1,15 +1,40 @@
 
-import React from 'react';
-import { BasicInfo as BasicInfoType } from '../types';
+import React, { useRef } from 'react';
+import { BasicInfo as BasicInfoType, CrewRosterLog, RosterShift } from '../types';
 import { InputGroup } from './InputGroup';
-import { OHCA_TYPE_OPTIONS, NOTIFICATION_TIME_OPTIONS, BATTALION_OPTIONS } from '../constants';
+import { OHCA_TYPE_OPTIONS, NOTIFICATION_TIME_OPTIONS, BATTALION_OPTIONS, TIME_ZONE_OPTIONS } from '../constants';
+import { rosterShiftKey } from '../services/roster';
+import { fieldElementId } from '../services/validationRules';
 
 interface Props {
   info: BasicInfoType;
   onChange: (field: keyof BasicInfoType, value: any) => void;
+  timeZone: string;
+  onTimeZoneChange: (timeZone: string) => void;
+  crewRoster: CrewRosterLog;
+  rosterSize: number; // Shifts stored from imported rosters
+  onDutyShifts: RosterShift[]; // Shifts covering this case's unit and incident time
+  hasIncidentTime: boolean;
+  onApplyShift: (shift: RosterShift) => void;
+  onImportRoster: (file: File) => void;
 }
 
-export const BasicInfo: React.FC<Props> = ({ info, onChange }) => {
+const idOf = (field: keyof BasicInfoType) => fieldElementId({ tab: 'basicInfo', field });
+
+export const BasicInfo: React.FC<Props> = ({
+  info,
+  onChange,
+  timeZone,
+  onTimeZoneChange,
+  crewRoster,
+  rosterSize,
+  onDutyShifts,
+  hasIncidentTime,
+  onApplyShift,
+  onImportRoster,
+}) => {
+  const rosterInputRef = useRef<HTMLInputElement>(null);
+
   const handleCaseIdChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onChange('caseId', e.target.value);
   };
@@ -18,6 +43,14 @@ export const BasicInfo: React.FC<Props> = ({ info, onChange }) => {
     onChange('unit', e.target.value);
   };
 
+  const handleRosterFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImportRoster(file);
+  };
+
+  const memberLabel = (field: string) => `人員 ${field.replace('member', '')}`;
+
   // Validation regex for unit: 1-3 Chinese characters
   const isUnitValid = !info.unit || /^[\u4e00-\u9fa5]{1,3}$/.test(info.unit);
 
@@ -29,6 +62,7 @@ export const BasicInfo: React.FC<Props> = ({ info, onChange }) => {
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <InputGroup
             label="審核者姓名"
+            id={idOf('reviewer')}
             value={info.reviewer}
             onChange={(e) => onChange('reviewer', e.target.value)}
             required
@@ -37,6 +71,7 @@ export const BasicInfo: React.FC<Props> = ({ info, onChange }) => {
             label="大隊別"
             as="select"
             options={BATTALION_OPTIONS}
+            id={idOf('battalion')}
             value={info.battalion}
             onChange={(e) => onChange('battalion', e.target.value)}
             required
@@ -45,6 +80,7 @@ export const BasicInfo: React.FC<Props> = ({ info, onChange }) => {
             label="分隊 (限3個中文字以內)"
             type="text"
             placeholder="例如：新店、永和中"
+            id={idOf('unit')}
             value={info.unit}
             onChange={handleUnitChange}
             required
@@ -57,6 +93,7 @@ export const BasicInfo: React.FC<Props> = ({ info, onChange }) => {
             <InputGroup
                 label="案件發生日期"
                 type="date"
+                id={idOf('date')}
                 value={info.date}
                 onChange={(e) => onChange('date', e.target.value)}
                 required
@@ -64,12 +101,21 @@ export const BasicInfo: React.FC<Props> = ({ info, onChange }) => {
             <InputGroup
                 label="案件編號 (12碼-1碼-1碼)"
                 placeholder="251202199862-1-1"
+                id={idOf('caseId')}
                 value={info.caseId}
                 onChange={handleCaseIdChange}
                 required
                 pattern="\d{12}-\d{1}-\d{1}"
                 error={info.caseId && !/^\d{12}-\d{1}-\d{1}$/.test(info.caseId) ? "格式錯誤" : undefined}
             />
+            <InputGroup
+                label="案件時區 (所有時間依此時區計算)"
+                as="select"
+                options={TIME_ZONE_OPTIONS.includes(timeZone) ? TIME_ZONE_OPTIONS : [timeZone, ...TIME_ZONE_OPTIONS]}
+                value={timeZone}
+                onChange={(e) => e.target.value && onTimeZoneChange(e.target.value)}
+                className="md:col-span-2"
+            />
         </div>
       </div>
 
@@ -80,6 +126,7 @@ export const BasicInfo: React.FC<Props> = ({ info, onChange }) => {
           label="OHCA 類型"
           as="select"
           options={OHCA_TYPE_OPTIONS}
+          id={idOf('ohcaType')}
           value={info.ohcaType}
           onChange={(e) => onChange('ohcaType', e.target.value)}
           required
@@ -88,6 +135,7 @@ export const BasicInfo: React.FC<Props> = ({ info, onChange }) => {
           label="OHCA 發現/通報時機"
           as="select"
           options={NOTIFICATION_TIME_OPTIONS}
+          id={idOf('notificationTime')}
           value={info.notificationTime}
           onChange={(e) => onChange('notificationTime', e.target.value)}
           required
@@ -96,15 +144,65 @@ export const BasicInfo: React.FC<Props> = ({ info, onChange }) => {
 
       {/* Personnel Data */}
       <div className="bg-white p-4 rounded-lg shadow-sm border border-medical-100 space-y-4">
-        <h3 className="font-bold text-lg text-medical-600 border-b border-medical-100 pb-2 mb-2">出勤人員</h3>
+        <div className="flex justify-between items-center border-b border-medical-100 pb-2 mb-2">
+          <h3 className="font-bold text-lg text-medical-600">出勤人員</h3>
+          <button
+            onClick={() => rosterInputRef.current?.click()}
+            className="text-xs font-bold text-medical-600 border border-medical-100 px-2 py-1 rounded-lg hover:bg-medical-50 transition-colors"
+          >
+            <i className="fas fa-calendar-alt mr-1"></i> 匯入班表
+          </button>
+          <input ref={rosterInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleRosterFile} />
+        </div>
+
+        {rosterSize > 0 && onDutyShifts.length === 0 && (
+          <p className="text-xs text-slate-400">
+            {!info.date || !info.unit || !hasIncidentTime
+              ? '填寫日期、分隊與發現患者時間後，可依班表帶入值班人員。'
+              : '班表中沒有此分隊在案發時間的值班資料。'}
+          </p>
+        )}
+        {onDutyShifts.map(shift => {
+          const key = rosterShiftKey(shift);
+          const isApplied = crewRoster.shift === key;
+          return (
+            <div key={key} className="bg-accent-50 p-3 rounded-lg border border-accent-200 text-medical-600 text-xs flex justify-between items-center gap-3">
+              <div>
+                <div className="font-bold mb-1">
+                  <i className="fas fa-user-clock mr-1"></i>
+                  班表：{shift.unit} {shift.shift} ({shift.start}–{shift.end})
+                </div>
+                <div>{shift.members.join('、')}</div>
+              </div>
+              <button
+                onClick={() => onApplyShift(shift)}
+                className="shrink-0 px-3 py-1.5 rounded-lg font-bold bg-accent-500 text-medical-900 hover:bg-accent-600 transition-colors"
+              >
+                {isApplied ? '重新套用' : '套用'}
+              </button>
+            </div>
+          );
+        })}
+
         <div className="grid grid-cols-2 gap-4">
-          <InputGroup label="人員 1" value={info.member1} onChange={(e) => onChange('member1', e.target.value)} required />
-          <InputGroup label="人員 2" value={info.member2} onChange={(e) => onChange('member2', e.target.value)} required />
-          <InputGroup label="人員 3" value={info.member3} onChange={(e) => onChange('member3', e.target.value)} />
-          <InputGroup label="人員 4" value={info.member4} onChange={(e) => onChange('member4', e.target.value)} />
-          <InputGroup label="人員 5" value={info.member5} onChange={(e) => onChange('member5', e.target.value)} />
-          <InputGroup label="人員 6" value={info.member6} onChange={(e) => onChange('member6', e.target.value)} />
+          <InputGroup id={idOf('member1')} label="人員 1" value={info.member1} onChange={(e) => onChange('member1', e.target.value)} required />
+          <InputGroup id={idOf('member2')} label="人員 2" value={info.member2} onChange={(e) => onChange('member2', e.target.value)} required />
+          <InputGroup id={idOf('member3')} label="人員 3" value={info.member3} onChange={(e) => onChange('member3', e.target.value)} />
+          <InputGroup id={idOf('member4')} label="人員 4" value={info.member4} onChange={(e) => onChange('member4', e.target.value)} />
+          <InputGroup id={idOf('member5')} label="人員 5" value={info.member5} onChange={(e) => onChange('member5', e.target.value)} />
+          <InputGroup id={idOf('member6')} label="人員 6" value={info.member6} onChange={(e) => onChange('member6', e.target.value)} />
         </div>
+
+        {crewRoster.shift && (
+          <div className="text-[10px] text-slate-400 font-mono space-y-0.5">
+            <div>已套用班表：{crewRoster.shift}</div>
+            {crewRoster.overrides.map(override => (
+              <div key={override.field} className="text-medical-600">
+                手動修改 {memberLabel(override.field)}：{override.rosterValue || '(空白)'} → {override.value || '(空白)'}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,195 @@
+import React, { useRef, useState } from 'react';
+import { CaseSummary } from '../types';
+
+interface Props {
+  cases: CaseSummary[];
+  currentId: string;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDownload: (id: string) => void;
+  onArchive: (id: string, archived: boolean) => void;
+  onDelete: (id: string) => void;
+  onExport: (ids: string[]) => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+export const CaseLibrary: React.FC<Props> = ({ cases, currentId, onOpen, onDuplicate, onDownload, onArchive, onDelete, onExport, onImport, onClose }) => {
+  const [showArchived, setShowArchived] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const visibleCases = cases.filter(entry => entry.archived === showArchived);
+  const archivedCount = cases.filter(entry => entry.archived).length;
+  // Drop selections of cases that were deleted meanwhile
+  const selected = selectedIds.filter(id => cases.some(entry => entry.id === id));
+  const allVisibleSelected = visibleCases.length > 0 && visibleCases.every(entry => selected.includes(entry.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]));
+  };
+
+  const toggleAllVisible = () => {
+    const visibleIds = visibleCases.map(entry => entry.id);
+    setSelectedIds(prev => (allVisibleSelected
+      ? prev.filter(id => !visibleIds.includes(id))
+      : [...prev, ...visibleIds.filter(id => !prev.includes(id))]));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so that picking the same file again still fires onChange
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  const formatUpdatedAt = (iso: string) => {
+    const d = new Date(iso);
+    if (isNaN(d.getTime())) return '--';
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${d.getMonth() + 1}/${d.getDate()} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+  };
+
+  const handleDelete = (entry: CaseSummary) => {
+    if (window.confirm(`確定要刪除案件「${entry.caseId || '未填案件編號'}」嗎？\n\n刪除後無法復原。`)) {
+      onDelete(entry.id);
+    }
+  };
+
+  const renderActionButton = (label: string, icon: string, onClick: () => void, danger = false) => (
+    <button
+      onClick={onClick}
+      className={`flex-1 py-2 rounded-lg text-xs font-bold border transition-colors flex items-center justify-center gap-1
+        ${danger
+          ? 'bg-white text-red-600 border-red-200 hover:bg-red-50'
+          : 'bg-white text-medical-600 border-medical-100 hover:bg-medical-50'}`}
+    >
+      <i className={`fas ${icon}`}></i> {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white w-full max-w-lg sm:rounded-2xl rounded-t-2xl shadow-2xl max-h-[90vh] flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-white border-b border-slate-100 p-4 flex justify-between items-center shrink-0 z-10">
+          <h2 className="text-lg font-bold text-medical-600 flex items-center">
+            <i className="fas fa-folder-open text-accent-600 mr-2"></i>
+            案件庫
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="bg-white text-medical-600 border border-medical-100 px-3 py-1.5 rounded-lg text-xs font-bold hover:bg-medical-50 transition-colors flex items-center"
+            >
+              <i className="fas fa-file-import mr-1"></i> 匯入
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv,.json,application/json"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors p-2 -mr-2">
+              <i className="fas fa-times text-xl"></i>
+            </button>
+          </div>
+        </div>
+
+        {/* Active / Archived toggle */}
+        <div className="px-4 pt-4 flex gap-2 shrink-0">
+          {[false, true].map(archived => (
+            <button
+              key={String(archived)}
+              onClick={() => setShowArchived(archived)}
+              className={`flex-1 py-2 rounded-lg text-sm font-semibold border transition-colors
+                ${showArchived === archived
+                  ? 'bg-accent-50 text-medical-600 border-accent-200'
+                  : 'bg-white text-slate-400 border-slate-200 hover:text-medical-600'}`}
+            >
+              {archived ? `已封存 (${archivedCount})` : `進行中 (${cases.length - archivedCount})`}
+            </button>
+          ))}
+        </div>
+
+        {visibleCases.length > 0 && (
+          <div className="px-4 pt-3 flex justify-between items-center text-xs text-slate-500 shrink-0">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} />
+              全選此頁
+            </label>
+            <span>已選取 {selected.length} 件</span>
+          </div>
+        )}
+
+        {/* Case list */}
+        <div className="p-4 space-y-3 overflow-y-auto flex-1">
+          {visibleCases.length === 0 && (
+            <p className="text-center text-sm text-slate-400 py-8">
+              {showArchived ? '沒有已封存的案件' : '沒有進行中的案件'}
+            </p>
+          )}
+          {visibleCases.map(entry => {
+            const isCurrent = entry.id === currentId;
+            return (
+              <div
+                key={entry.id}
+                className={`p-3 rounded-lg border shadow-sm ${isCurrent ? 'border-accent-500 bg-accent-50' : 'border-medical-100 bg-white'}`}
+              >
+                <div className="flex justify-between items-start mb-2">
+                  <label className="flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={selected.includes(entry.id)}
+                      onChange={() => toggleSelected(entry.id)}
+                    />
+                    <div>
+                      <div className="font-bold text-medical-600 font-mono text-sm">
+                        {entry.caseId || '未填案件編號'}
+                        {isCurrent && <span className="ml-2 text-[10px] font-sans bg-accent-500 text-medical-900 px-1.5 py-0.5 rounded">編輯中</span>}
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        {entry.date || '--'} ・ {entry.unit || '未填分隊'}
+                      </div>
+                    </div>
+                  </label>
+                  <span className="text-[10px] text-slate-400 font-mono">{formatUpdatedAt(entry.updatedAt)}</span>
+                </div>
+                <div className="flex gap-2">
+                  {!isCurrent && renderActionButton('開啟', 'fa-folder-open', () => onOpen(entry.id))}
+                  {renderActionButton('複製', 'fa-copy', () => onDuplicate(entry.id))}
+                  {renderActionButton('下載', 'fa-download', () => onDownload(entry.id))}
+                  {renderActionButton(entry.archived ? '取消封存' : '封存', 'fa-archive', () => onArchive(entry.id, !entry.archived))}
+                  {renderActionButton('刪除', 'fa-trash', () => handleDelete(entry), true)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        <div className="bg-white border-t border-slate-100 p-4 flex gap-3 shrink-0 z-10">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 transition-colors"
+          >
+            關閉
+          </button>
+          <button
+            onClick={() => onExport(selected)}
+            disabled={selected.length === 0}
+            className={`flex-[2] py-3 rounded-xl font-bold shadow-lg transition-all flex justify-center items-center
+              ${selected.length === 0
+                ? 'bg-slate-400 text-white cursor-not-allowed shadow-none'
+                : 'bg-accent-500 text-medical-900 hover:bg-accent-600 active:scale-95'}`}
+          >
+            <i className="fas fa-file-export mr-2"></i> 匯出選取 ({selected.length})
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { AppState, InterruptionRecords } from '../types';
+import { DEFAULT_GAP_THRESHOLD_SECONDS, fillInterruptions, findHandsOffGaps, parseCprStream, splitGaps } from '../services/cprStream';
+import { calculateInterruption, interruptionItemSeconds } from '../services/metrics';
+import { SECTION_LABELS } from '../services/interruptions';
+
+interface Props {
+  text: string;
+  fileName: string;
+  data: AppState;
+  onApply: (records: InterruptionRecords) => void;
+  onClose: () => void;
+}
+
+export const CprStreamImport: React.FC<Props> = ({ text, fileName, data, onApply, onClose }) => {
+  const [threshold, setThreshold] = useState(String(DEFAULT_GAP_THRESHOLD_SECONDS));
+  const thresholdSeconds = Number(threshold);
+  const isThresholdValid = threshold.trim() !== '' && !isNaN(thresholdSeconds) && thresholdSeconds >= 0;
+
+  const { stream, error } = useMemo(() => {
+    try {
+      return { stream: parseCprStream(text, data), error: '' };
+    } catch (e) {
+      return { stream: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [text, data]);
+
+  const { result, splitError } = useMemo(() => {
+    if (!stream || !isThresholdValid) return { result: null, splitError: '' };
+    try {
+      const split = splitGaps(findHandsOffGaps(stream, thresholdSeconds), data);
+      return { result: { split, fill: fillInterruptions(split, data) }, splitError: '' };
+    } catch (e) {
+      return { result: null, splitError: e instanceof Error ? e.message : String(e) };
+    }
+  }, [stream, thresholdSeconds, isThresholdValid, data]);
+
+  const hasExisting = [...data.interruptionRecords.beforePads, ...data.interruptionRecords.beforeMcpr]
+    .some(item => item.start || item.end || item.reason);
+
+  const renderSection = (section: keyof InterruptionRecords) => {
+    if (!result) return null;
+    const items = result.fill.records[section];
+    return (
+      <div key={section}>
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="text-sm font-bold text-medical-600">{SECTION_LABELS[section]}</h3>
+          <span className="text-xs font-mono text-medical-600">{items.length} 筆 / {calculateInterruption(items, data.interruptionTimeBase.kind)} 秒</span>
+        </div>
+        {items.length === 0 ? (
+          <p className="text-xs text-slate-400 mb-2">沒有超過門檻的中斷</p>
+        ) : (
+          <div className="bg-medical-50 rounded-lg border border-medical-100 p-2 text-xs font-mono space-y-0.5 mb-2">
+            {items.map((item, i) => (
+              <div key={i} className="flex justify-between">
+                <span>{i + 1}. {item.start} – {item.end}</span>
+                <span className="text-medical-600">{interruptionItemSeconds(item, data.interruptionTimeBase.kind)} 秒</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white w-full max-w-lg sm:rounded-2xl rounded-t-2xl shadow-2xl max-h-[90vh] flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-white border-b border-slate-100 p-4 flex justify-between items-center shrink-0 z-10">
+          <h2 className="text-lg font-bold text-medical-600 flex items-center">
+            <i className="fas fa-wave-square text-accent-600 mr-2"></i>
+            由按壓紀錄找出中斷
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors p-2 -mr-2">
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-4 space-y-4 overflow-y-auto flex-1">
+          <div className="text-xs text-slate-500 break-all">
+            <i className="fas fa-file-alt mr-1"></i>{fileName}
+            {stream && (
+              <span className="ml-2">
+                ({stream.kind === 'pauses' ? `${stream.pauses.length} 筆中斷區段` : `${stream.compressions.length} 次按壓`})
+              </span>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1">
+              中斷門檻 (秒，超過才算中斷)
+            </label>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              className={`w-full text-sm p-2 border rounded outline-none focus:ring-2 focus:ring-medical-500 ${isThresholdValid ? 'border-medical-100' : 'border-red-300 bg-red-50'}`}
+            />
+          </div>
+
+          {(error || splitError) && (
+            <div className="bg-red-50 border border-red-200 text-red-600 rounded-lg p-3 text-sm">
+              <i className="fas fa-exclamation-triangle mr-1"></i>{error || splitError}
+            </div>
+          )}
+
+          {result && (
+            <>
+              {renderSection('beforePads')}
+              {renderSection('beforeMcpr')}
+              <div className="text-[10px] text-slate-400 space-y-0.5">
+                <div>依貼上貼片與 MCPR 架設時間分段，時間以目前的中斷時間基準 ({data.interruptionTimeBase.kind === 'video' ? '影片時間' : 'AED 時鐘'}) 寫入。中斷原因請於帶入後選擇。</div>
+                {result.split.after.length > 0 && <div>MCPR 架設後的 {result.split.after.length} 筆中斷不列入。</div>}
+                {result.fill.outOfRange > 0 && <div className="text-red-500">{result.fill.outOfRange} 筆無法以目前的時間基準表示 (例如早於影片開始)，未帶入。</div>}
+              </div>
+              {hasExisting && (
+                <div className="bg-accent-50 border border-accent-200 text-medical-600 rounded-lg p-3 text-xs">
+                  <i className="fas fa-exclamation-circle mr-1"></i>
+                  帶入後將取代目前所有中斷紀錄 (含已選的原因)。
+                </div>
+              )}
+            </>
+          )}
+
+          {stream && stream.problems.length > 0 && (
+            <div className="bg-accent-50 border border-accent-200 text-medical-600 rounded-lg p-3 text-xs space-y-1">
+              <div className="font-bold">略過的行：</div>
+              {stream.problems.map((problem, i) => <div key={i}>{problem}</div>)}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="bg-white border-t border-slate-100 p-4 flex gap-3 shrink-0 z-10">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => result && onApply(result.fill.records)}
+            disabled={!result}
+            className={`flex-[2] py-3 rounded-xl font-bold transition-colors shadow-lg
+              ${result ? 'bg-accent-500 text-medical-900 hover:bg-accent-600' : 'bg-slate-200 text-slate-400 cursor-not-allowed shadow-none'}`}
+          >
+            帶入中斷紀錄
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
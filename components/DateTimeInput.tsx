@@ -1,4 +1,5 @@
 import React, { useEffect, useState } from 'react';
+import { caseToday } from '../services/timeUtils';
 
 interface Props {
   value: string; // ISO string YYYY-MM-DDTHH:mm:ss
@@ -6,9 +7,10 @@ interface Props {
   disabled?: boolean;
   className?: string; // CSS classes for styling
   defaultDate?: string; // YYYY-MM-DD to use when only time is picked
+  id?: string; // Given to the time input, the part usually edited
 }
 
-export const DateTimeInput: React.FC<Props> = ({ value, onChange, disabled, className, defaultDate }) => {
+export const DateTimeInput: React.FC<Props> = ({ value, onChange, disabled, className, defaultDate, id }) => {
   const [dateVal, setDateVal] = useState('');
   const [timeVal, setTimeVal] = useState('');
 
@@ -25,14 +27,6 @@ export const DateTimeInput: React.FC<Props> = ({ value, onChange, disabled, clas
     }
   }, [value]);
 
-  const getTodayStr = () => {
-    const today = new Date();
-    const year = today.getFullYear();
-    const month = String(today.getMonth() + 1).padStart(2, '0');
-    const day = String(today.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-  };
-
   const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newDate = e.target.value;
     setDateVal(newDate);
@@ -69,7 +63,7 @@ export const DateTimeInput: React.FC<Props> = ({ value, onChange, disabled, clas
     // 2. If Time is entered but Date is empty, Auto-fill Date
     let finalDate = dateVal;
     if (!finalDate) {
-      finalDate = defaultDate || getTodayStr();
+      finalDate = defaultDate || caseToday();
       setDateVal(finalDate);
     }
 
@@ -95,6 +89,7 @@ export const DateTimeInput: React.FC<Props> = ({ value, onChange, disabled, clas
         className={`${inputBaseClass} flex-[4] min-w-0`} // Date needs a bit more space
       />
       <input
+        id={id}
         type="time"
         step="1" // CRITICAL: Enables seconds selection on mobile
         value={timeVal}
@@ -1,37 +1,35 @@
 import React from 'react';
 import { FeedbackPatchInfo } from '../types';
+import { FEEDBACK_PATCH_FIELDS } from '../services/feedbackPatch';
+import { RuleViolation, fieldElementId } from '../services/validationRules';
 import { InputGroup } from './InputGroup';
 
 interface Props {
   info: FeedbackPatchInfo;
+  issues: Record<keyof FeedbackPatchInfo, RuleViolation[]>;
   onChange: (field: keyof FeedbackPatchInfo, value: string) => void;
 }
 
-const fields: Array<{ key: keyof FeedbackPatchInfo; label: string; placeholder?: string }> = [
-  { key: 'manualDepthBeforeMcpr', label: '架設MCPR前平均徒手按壓深度(cm)' },
-  { key: 'manualRateBeforeMcpr', label: '架設MCPR前平均徒手按壓速率(cpm)' },
-  { key: 'manualReleaseVelocityBeforeMcpr', label: '架設MCPR前平均徒手釋放速度(mm/s)' },
-  { key: 'targetManualDepthPercent', label: '目標中 - 徒手深度(%)' },
-  { key: 'targetManualRatePercent', label: '目標中 - 徒手速率(%)' },
-  { key: 'targetManualCompressionPercent', label: '目標中 - 徒手按壓(%)' },
-  { key: 'preShockPauseTime', label: '去顫前停滯時間(未電擊=N/A)', placeholder: '未電擊可留空或輸入 N/A' },
-  { key: 'postShockPauseTime', label: '去顫後停滯時間(未電擊=N/A)', placeholder: '未電擊可留空或輸入 N/A' },
-];
+const messagesOf = (violations: RuleViolation[], severity: RuleViolation['severity']) =>
+  violations.filter(v => v.severity === severity).map(v => v.message).join('；') || undefined;
 
-export const FeedbackPatch: React.FC<Props> = ({ info, onChange }) => {
+export const FeedbackPatch: React.FC<Props> = ({ info, issues, onChange }) => {
   return (
     <div className="bg-white p-4 rounded-lg shadow-sm border border-medical-100 animate-fadeIn">
       <h3 className="font-bold text-lg text-medical-600 border-b border-medical-100 pb-2 mb-4">回饋貼片</h3>
+      <p className="text-xs text-slate-400 -mt-2 mb-4">請填數字；貼片未提供的數值填 N/A。超出合理範圍的數值會以黃字提醒。</p>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {fields.map((field) => (
+        {FEEDBACK_PATCH_FIELDS.map((field) => (
           <InputGroup
             key={field.key}
+            id={fieldElementId({ tab: 'feedbackPatch', field: field.key })}
             label={field.label}
-            type={field.key.includes('PauseTime') ? 'text' : 'number'}
-            step="any"
-            min="0"
-            placeholder={field.placeholder}
+            type="text"
+            inputMode="decimal"
+            placeholder={field.placeholder || (field.max === undefined ? `≥ ${field.min}` : `${field.min}–${field.max}`)}
             value={info[field.key]}
+            error={messagesOf(issues[field.key], 'error')}
+            warning={messagesOf(issues[field.key], 'warning')}
             onChange={(e) => onChange(field.key, e.target.value)}
           />
         ))}
@@ -5,6 +5,7 @@ interface InputGroupProps extends React.InputHTMLAttributes<HTMLInputElement | H
   as?: 'input' | 'select' | 'textarea';
   options?: string[];
   error?: string;
+  warning?: string; // Shown like an error but in the warning colour, when there is no error
   fullWidth?: boolean;
 }
 
@@ -13,13 +14,14 @@ export const InputGroup: React.FC<InputGroupProps> = ({
   as = 'input',
   options,
   error,
+  warning,
   className,
   fullWidth = true,
   ...props
 }) => {
   const baseClasses = `
     w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-medical-500 transition-colors
-    ${error ? 'border-red-500 focus:ring-red-200' : 'border-medical-100'}
+    ${error ? 'border-red-500 focus:ring-red-200' : warning ? 'border-accent-500 focus:ring-accent-200' : 'border-medical-100'}
     ${props.disabled ? 'bg-slate-100 text-slate-500 cursor-not-allowed' : 'bg-white text-medical-600'}
   `;
 
@@ -44,6 +46,7 @@ export const InputGroup: React.FC<InputGroupProps> = ({
       )}
       
       {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+      {!error && warning && <p className="text-accent-700 text-xs mt-1">{warning}</p>}
     </div>
   );
 };
@@ -1,41 +1,54 @@
 
 import React, { useMemo, useRef } from 'react';
-import { InterruptionItem, InterruptionRecords } from '../types';
+import { InterruptionItem, InterruptionRecords, InterruptionTimeBase } from '../types';
 import { INTERRUPTION_REASONS } from '../constants';
+import { calculateInterruption, interruptionItemSeconds } from '../services/metrics';
+import { InterruptionIssue, TIME_BASE_FORMATS } from '../services/interruptions';
+import { parseInterruptionSeconds } from '../services/timeUtils';
+import { fieldElementId } from '../services/validationRules';
+import { DateTimeInput } from './DateTimeInput';
 
 interface Props {
   records: InterruptionRecords;
+  timeBase: InterruptionTimeBase;
+  caseDate: string;
+  issues: InterruptionIssue[]; // From validateInterruptions, shown on the entry they point at
   onChange: (section: keyof InterruptionRecords, index: number, field: keyof InterruptionItem, value: string) => void;
+  onAdd: (section: keyof InterruptionRecords) => void;
+  onRemove: (section: keyof InterruptionRecords, index: number) => void;
+  onMove: (section: keyof InterruptionRecords, index: number, direction: -1 | 1) => void;
+  onImportCprStream: (file: File) => void;
+  onTimeBaseChange: (timeBase: InterruptionTimeBase) => void;
 }
 
-export const Interruption: React.FC<Props> = ({ records, onChange }) => {
+// Inputs that are complete enough to move on to the next field
+const COMPLETE_TIME: Record<InterruptionTimeBase['kind'], RegExp> = {
+  video: /^\d{4}$/,
+  aedClock: /^(\d{6}|\d{2}:\d{2}:\d{2})$/,
+};
+
+const TIME_PLACEHOLDERS: Record<InterruptionTimeBase['kind'], [string, string]> = {
+  video: ['例如 1106', '例如 1130'],
+  aedClock: ['例如 10:11:06', '例如 10:11:30'],
+};
+
+export const Interruption: React.FC<Props> = ({
+  records, timeBase, caseDate, issues, onChange, onAdd, onRemove, onMove, onImportCprStream, onTimeBaseChange,
+}) => {
   // Use refs to manage focus flow
   const startRefs = useRef<(HTMLInputElement | null)[]>([]);
   const endRefs = useRef<(HTMLInputElement | null)[]>([]);
   const reasonRefs = useRef<(HTMLSelectElement | null)[]>([]);
+  const streamInputRef = useRef<HTMLInputElement>(null);
 
-  // Calculate total seconds from 4-digit format (MMSS)
-  const calculateSeconds = (mmss: string) => {
-    if (!mmss || mmss.length !== 4) return 0;
-    const mins = parseInt(mmss.substring(0, 2), 10);
-    const secs = parseInt(mmss.substring(2, 4), 10);
-    if (isNaN(mins) || isNaN(secs)) return 0;
-    return (mins * 60) + secs;
+  const handleStreamFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImportCprStream(file);
   };
 
-  const calculateTotal = (items: InterruptionItem[]) => {
-    return items.reduce((acc, item) => {
-      const startSec = calculateSeconds(item.start);
-      const endSec = calculateSeconds(item.end);
-      if (endSec > startSec) {
-        return acc + (endSec - startSec);
-      }
-      return acc;
-    }, 0);
-  };
-
-  const totalBeforePads = useMemo(() => calculateTotal(records.beforePads), [records.beforePads]);
-  const totalBeforeMcpr = useMemo(() => calculateTotal(records.beforeMcpr), [records.beforeMcpr]);
+  const totalBeforePads = useMemo(() => calculateInterruption(records.beforePads, timeBase.kind), [records.beforePads, timeBase.kind]);
+  const totalBeforeMcpr = useMemo(() => calculateInterruption(records.beforeMcpr, timeBase.kind), [records.beforeMcpr, timeBase.kind]);
 
   const handleTimeInput = (
     sectionKey: keyof InterruptionRecords, 
@@ -44,12 +57,12 @@ export const Interruption: React.FC<Props> = ({ records, onChange }) => {
     value: string,
     globalIndex: number
   ) => {
-    // Allow only digits and max 4 chars
-    const numericValue = value.replace(/\D/g, '').slice(0, 4);
-    onChange(sectionKey, index, field, numericValue);
+    // Allow only digits and colons, up to H:MM:SS
+    const timeValue = value.replace(/[^\d:]/g, '').slice(0, 8);
+    onChange(sectionKey, index, field, timeValue);
 
     // Auto focus logic
-    if (numericValue.length === 4) {
+    if (COMPLETE_TIME[timeBase.kind].test(timeValue)) {
       if (field === 'start') {
         endRefs.current[globalIndex]?.focus();
       } else if (field === 'end') {
@@ -64,89 +77,171 @@ export const Interruption: React.FC<Props> = ({ records, onChange }) => {
     items: InterruptionItem[],
     total: number,
     offsetIndex: number
-  ) => (
-    <div className="mb-8">
-      <div className="flex justify-between items-center mb-3 border-b border-medical-100 pb-2">
-        <h3 className="font-bold text-medical-600">{title}</h3>
-        <span className="text-sm bg-accent-50 text-medical-600 border border-accent-200 px-2 py-1 rounded font-mono font-bold">
-          總和: {total} 秒
-        </span>
-      </div>
+  ) => {
+    const sectionIssues = issues.filter(issue => issue.section === sectionKey);
+    return (
+      <div className="mb-8">
+        <div
+          id={fieldElementId({ tab: 'interruptions', field: sectionKey })}
+          tabIndex={-1}
+          className="flex justify-between items-center mb-3 border-b border-medical-100 pb-2 outline-none"
+        >
+          <h3 className="font-bold text-medical-600">{title}</h3>
+          <span className={`text-sm px-2 py-1 rounded font-mono font-bold border ${sectionIssues.some(issue => issue.index === null) ? 'bg-red-50 text-red-600 border-red-200' : 'bg-accent-50 text-medical-600 border-accent-200'}`}>
+            總和: {total} 秒
+          </span>
+        </div>
+        {sectionIssues.filter(issue => issue.index === null).map((issue, i) => (
+          <p key={i} className="text-xs text-red-500 mb-2"><i className="fas fa-exclamation-triangle mr-1"></i>{issue.message}</p>
+        ))}
       
-      <div className="space-y-3">
-        {items.map((item, index) => {
-          const globalIndex = offsetIndex + index;
-          const startSec = calculateSeconds(item.start);
-          const endSec = calculateSeconds(item.end);
-          const duration = (endSec > startSec) ? endSec - startSec : 0;
-          const isFilled = item.start.length === 4 && item.end.length === 4;
-          const isReasonMissing = isFilled && !item.reason;
+        <div className="space-y-3">
+          {items.map((item, index) => {
+            const globalIndex = offsetIndex + index;
+            const duration = interruptionItemSeconds(item, timeBase.kind);
+            const isFilled = parseInterruptionSeconds(item.start, timeBase.kind) !== null
+              && parseInterruptionSeconds(item.end, timeBase.kind) !== null;
+            const isReasonMissing = isFilled && !item.reason;
+            const itemIssues = sectionIssues.filter(issue => issue.index === index);
+            const inputId = (input: 'start' | 'end' | 'reason') =>
+              fieldElementId({ tab: 'interruptions', field: `${sectionKey}.${index}.${input}` });
 
-          return (
-            <div key={item.id} className="bg-white p-3 rounded-lg border border-medical-100 shadow-sm text-sm">
-              <div className="flex justify-between items-center mb-2">
-                 <span className="font-semibold text-slate-500 text-xs">紀錄 {index + 1}</span>
-                 {duration > 0 && <span className="text-xs font-mono text-medical-600">{duration}秒</span>}
-              </div>
-              
-              <div className="grid grid-cols-2 gap-2 mb-2">
-                <div>
-                   <label className="text-[10px] text-slate-400 block mb-1">開始 (MMSS)</label>
-                   <input
-                      ref={(el) => { startRefs.current[globalIndex] = el }}
-                      type="tel"
-                      placeholder="例如 1106"
-                      value={item.start}
-                      onChange={(e) => handleTimeInput(sectionKey, index, 'start', e.target.value, globalIndex)}
-                      className={`w-full text-xs p-1 border rounded focus:ring-1 focus:ring-medical-500 outline-none transition-colors tracking-widest text-center ${item.start ? 'bg-white border-medical-200' : 'bg-medical-50 border-medical-100'}`}
-                   />
+            return (
+              <div key={item.id} className={`bg-white p-3 rounded-lg border shadow-sm text-sm ${itemIssues.length > 0 ? 'border-red-300' : 'border-medical-100'}`}>
+                <div className="flex justify-between items-center mb-2">
+                   <span className="font-semibold text-slate-500 text-xs">
+                     紀錄 {index + 1}
+                     {duration > 0 && <span className="ml-2 font-mono text-medical-600">{duration}秒</span>}
+                   </span>
+                   <div className="flex items-center gap-1">
+                     <button
+                       onClick={() => onMove(sectionKey, index, -1)}
+                       disabled={index === 0}
+                       className="w-7 h-7 rounded text-slate-400 hover:bg-medical-50 hover:text-medical-600 disabled:opacity-30 disabled:hover:bg-transparent"
+                       title="上移"
+                     >
+                       <i className="fas fa-arrow-up text-xs"></i>
+                     </button>
+                     <button
+                       onClick={() => onMove(sectionKey, index, 1)}
+                       disabled={index === items.length - 1}
+                       className="w-7 h-7 rounded text-slate-400 hover:bg-medical-50 hover:text-medical-600 disabled:opacity-30 disabled:hover:bg-transparent"
+                       title="下移"
+                     >
+                       <i className="fas fa-arrow-down text-xs"></i>
+                     </button>
+                     <button
+                       onClick={() => onRemove(sectionKey, index)}
+                       className="w-7 h-7 rounded text-red-400 hover:bg-red-50 hover:text-red-600"
+                       title="刪除"
+                     >
+                       <i className="fas fa-trash text-xs"></i>
+                     </button>
+                   </div>
                 </div>
-                <div>
-                   <label className="text-[10px] text-slate-400 block mb-1">結束 (MMSS)</label>
-                   <input
-                      ref={(el) => { endRefs.current[globalIndex] = el }}
-                      type="tel"
-                      placeholder="例如 1130"
-                      value={item.end}
-                      onChange={(e) => handleTimeInput(sectionKey, index, 'end', e.target.value, globalIndex)}
-                      className={`w-full text-xs p-1 border rounded focus:ring-1 focus:ring-medical-500 outline-none transition-colors tracking-widest text-center ${item.end ? 'bg-white border-medical-200' : 'bg-medical-50 border-medical-100'}`}
-                   />
+              
+                <div className="grid grid-cols-2 gap-2 mb-2">
+                  <div>
+                     <label className="text-[10px] text-slate-400 block mb-1">開始</label>
+                     <input
+                        ref={(el) => { startRefs.current[globalIndex] = el }}
+                        id={inputId('start')}
+                        type="tel"
+                        placeholder={TIME_PLACEHOLDERS[timeBase.kind][0]}
+                        value={item.start}
+                        onChange={(e) => handleTimeInput(sectionKey, index, 'start', e.target.value, globalIndex)}
+                        className={`w-full text-xs p-1 border rounded focus:ring-1 focus:ring-medical-500 outline-none transition-colors tracking-widest text-center ${item.start ? 'bg-white border-medical-200' : 'bg-medical-50 border-medical-100'}`}
+                     />
+                  </div>
+                  <div>
+                     <label className="text-[10px] text-slate-400 block mb-1">結束</label>
+                     <input
+                        ref={(el) => { endRefs.current[globalIndex] = el }}
+                        id={inputId('end')}
+                        type="tel"
+                        placeholder={TIME_PLACEHOLDERS[timeBase.kind][1]}
+                        value={item.end}
+                        onChange={(e) => handleTimeInput(sectionKey, index, 'end', e.target.value, globalIndex)}
+                        className={`w-full text-xs p-1 border rounded focus:ring-1 focus:ring-medical-500 outline-none transition-colors tracking-widest text-center ${item.end ? 'bg-white border-medical-200' : 'bg-medical-50 border-medical-100'}`}
+                     />
+                  </div>
                 </div>
-              </div>
               
-              <div className="relative">
-                <select
-                    ref={(el) => { reasonRefs.current[globalIndex] = el }}
-                    value={item.reason}
-                    onChange={(e) => onChange(sectionKey, index, 'reason', e.target.value)}
-                    className={`w-full text-xs p-2 border rounded appearance-none ${isReasonMissing ? 'border-red-500 bg-red-50 focus:ring-red-200' : 'bg-medical-50 border-medical-100 focus:bg-white'}`}
-                >
-                    <option value="">選擇中斷原因 {isFilled ? '(必填)' : ''}</option>
-                    {INTERRUPTION_REASONS.map(r => (
-                    <option key={r} value={r}>{r}</option>
-                    ))}
-                </select>
-                <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-500">
-                    <i className="fas fa-chevron-down text-xs"></i>
+                <div className="relative">
+                  <select
+                      ref={(el) => { reasonRefs.current[globalIndex] = el }}
+                      id={inputId('reason')}
+                      value={item.reason}
+                      onChange={(e) => onChange(sectionKey, index, 'reason', e.target.value)}
+                      className={`w-full text-xs p-2 border rounded appearance-none ${isReasonMissing ? 'border-red-500 bg-red-50 focus:ring-red-200' : 'bg-medical-50 border-medical-100 focus:bg-white'}`}
+                  >
+                      <option value="">選擇中斷原因 {isFilled ? '(必填)' : ''}</option>
+                      {INTERRUPTION_REASONS.map(r => (
+                      <option key={r} value={r}>{r}</option>
+                      ))}
+                  </select>
+                  <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-500">
+                      <i className="fas fa-chevron-down text-xs"></i>
+                  </div>
                 </div>
+                {itemIssues.map((issue, i) => (
+                  <p key={i} className="text-[10px] text-red-500 mt-1">{issue.message}</p>
+                ))}
               </div>
-              {isReasonMissing && <p className="text-[10px] text-red-500 mt-1">請選擇原因</p>}
-            </div>
-          );
-        })}
+            );
+          })}
+          {items.length === 0 && <p className="text-xs text-slate-400 text-center py-2">尚無中斷紀錄</p>}
+          <button
+            onClick={() => onAdd(sectionKey)}
+            className="w-full py-2 rounded-lg text-xs font-bold border border-dashed border-medical-300 text-medical-600 hover:bg-medical-50 transition-colors"
+          >
+            <i className="fas fa-plus mr-1"></i> 新增中斷
+          </button>
+        </div>
       </div>
-    </div>
-  );
+    );
+  };
 
   return (
     <div className="animate-fadeIn pb-24">
-       <div className="bg-accent-50 p-3 rounded-lg border border-accent-200 text-medical-600 text-xs mb-4">
+      <div className="bg-white p-3 rounded-lg border border-medical-100 shadow-sm mb-4 space-y-2">
+        <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide">時間基準</label>
+        <select
+          value={timeBase.kind}
+          onChange={(e) => onTimeBaseChange({ ...timeBase, kind: e.target.value as InterruptionTimeBase['kind'] })}
+          className="w-full text-sm p-2 border border-medical-100 rounded bg-white outline-none focus:ring-2 focus:ring-medical-500"
+        >
+          <option value="video">影片時間 (自影片開始起算)</option>
+          <option value="aedClock">AED 時鐘時間</option>
+        </select>
+        {timeBase.kind === 'video' && (
+          <div>
+            <label className="block text-[10px] text-slate-400 mb-1">影片 00:00 對應的 AED 時間 (空白 = Power ON)</label>
+            <DateTimeInput
+              value={timeBase.videoStart}
+              onChange={(videoStart) => onTimeBaseChange({ ...timeBase, videoStart })}
+              className="w-full text-sm p-2 border border-medical-100 rounded outline-none focus:ring-2 focus:ring-medical-500"
+              defaultDate={caseDate}
+            />
+          </div>
+        )}
+      </div>
+      <div className="bg-accent-50 p-3 rounded-lg border border-accent-200 text-medical-600 text-xs mb-4">
         <i className="fas fa-info-circle mr-1"></i>
-        請輸入 4 位數時間 (MMSS)，例如 1106 代表 11分06秒。填寫開始後會自動跳轉。
+        {timeBase.kind === 'video'
+          ? '請輸入影片時間 (MMSS、MM:SS 或 H:MM:SS)，例如 1106 代表 11分06秒。輸入 4 位數後會自動跳轉。'
+          : `請輸入 AED 時鐘時間 (${TIME_BASE_FORMATS.aedClock})，跨午夜的時間會自動排到隔天。`}
       </div>
+      <button
+        onClick={() => streamInputRef.current?.click()}
+        className="w-full mb-6 py-2 rounded-lg text-sm font-bold border border-medical-100 bg-white text-medical-600 hover:bg-medical-50 transition-colors"
+      >
+        <i className="fas fa-wave-square mr-1"></i> 匯入按壓紀錄，自動找出中斷
+      </button>
+      <input ref={streamInputRef} type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden" onChange={handleStreamFile} />
       
-      {renderSection('貼上貼片前 (5筆)', 'beforePads', records.beforePads, totalBeforePads, 0)}
-      {renderSection('架設 MCPR 前 (10筆)', 'beforeMcpr', records.beforeMcpr, totalBeforeMcpr, 5)}
+      {renderSection(`貼上貼片前 (${records.beforePads.length}筆)`, 'beforePads', records.beforePads, totalBeforePads, 0)}
+      {renderSection(`架設 MCPR 前 (${records.beforeMcpr.length}筆)`, 'beforeMcpr', records.beforeMcpr, totalBeforeMcpr, records.beforePads.length)}
     </div>
   );
 };
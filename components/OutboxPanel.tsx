@@ -0,0 +1,115 @@
+import React from 'react';
+import { OutboxEntry, OutboxStatus } from '../types';
+
+interface Props {
+  entries: OutboxEntry[];
+  isOnline: boolean;
+  actionErrors: Record<string, string>; // Failed retry or remove, by entry id
+  onRetry: (entry: OutboxEntry) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<OutboxStatus, { label: string; className: string }> = {
+  pending: { label: '等待上傳', className: 'bg-accent-50 text-medical-600 border-accent-200' },
+  sending: { label: '上傳中', className: 'bg-medical-50 text-medical-600 border-medical-200' },
+  sent: { label: '已送出', className: 'bg-white text-slate-500 border-slate-200' },
+  failed: { label: '失敗', className: 'bg-red-50 text-red-600 border-red-200' },
+};
+
+export const OutboxPanel: React.FC<Props> = ({ entries, isOnline, actionErrors, onRetry, onRemove, onClose }) => {
+  const formatTime = (iso: string) => {
+    const d = new Date(iso);
+    if (!iso || isNaN(d.getTime())) return '--';
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${d.getMonth() + 1}/${d.getDate()} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white w-full max-w-lg sm:rounded-2xl rounded-t-2xl shadow-2xl max-h-[90vh] flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-white border-b border-slate-100 p-4 flex justify-between items-center shrink-0 z-10">
+          <h2 className="text-lg font-bold text-medical-600 flex items-center">
+            <i className="fas fa-inbox text-accent-600 mr-2"></i>
+            待送佇列
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors p-2 -mr-2">
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-4 space-y-3 overflow-y-auto flex-1">
+          {!isOnline && (
+            <div className="bg-accent-50 p-3 rounded-lg border border-accent-200 text-medical-600 text-xs">
+              <i className="fas fa-wifi mr-1"></i>
+              目前離線，恢復連線後將自動上傳。
+            </div>
+          )}
+          {entries.length === 0 && (
+            <p className="text-center text-sm text-slate-400 py-8">沒有上傳紀錄</p>
+          )}
+          {entries.map(entry => {
+            const status = STATUS_LABELS[entry.status];
+            const errorMessage = actionErrors[entry.id] || (entry.status !== 'sent' ? entry.lastError : '');
+            return (
+              <div key={entry.id} className="p-3 rounded-lg border border-medical-100 bg-white shadow-sm text-sm">
+                <div className="flex justify-between items-start mb-1">
+                  <div>
+                    <div className="font-bold text-medical-600 font-mono">{entry.caseId || '未填案件編號'}</div>
+                    <div className="text-xs text-slate-500 break-all">{entry.endpointName || entry.url}</div>
+                  </div>
+                  <span className={`text-[10px] font-bold border px-2 py-0.5 rounded shrink-0 ${status.className}`}>{status.label}</span>
+                </div>
+                <div className="text-[10px] text-slate-400 font-mono space-y-0.5">
+                  <div>加入：{formatTime(entry.createdAt)}　嘗試：{entry.attempts} 次</div>
+                  {entry.status === 'sent' && <div>送出：{formatTime(entry.sentAt)}</div>}
+                  {entry.status === 'sent' && (entry.receipt ? (
+                    <div className="text-medical-600">
+                      回條：第 {entry.receipt.rowId} 列　伺服器時間 {formatTime(entry.receipt.receivedAt)}　雜湊 {entry.receipt.payloadHash.slice(0, 12)}
+                    </div>
+                  ) : (
+                    <div>未取得回條，無法確認伺服器已寫入 (請更新 Apps Script)</div>
+                  ))}
+                  {entry.status === 'pending' && entry.attempts > 0 && <div>下次重試：{formatTime(entry.nextAttemptAt)}</div>}
+                </div>
+                {errorMessage && (
+                  <p className="text-[10px] text-red-500 mt-1">{errorMessage}</p>
+                )}
+                {/* Sent entries are kept: they are what prevents sending the same case twice */}
+                {(entry.status === 'failed' || entry.status === 'pending') && (
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      onClick={() => onRetry(entry)}
+                      className="flex-1 py-1.5 rounded-lg text-xs font-bold border bg-white text-medical-600 border-medical-100 hover:bg-medical-50 transition-colors"
+                    >
+                      <i className="fas fa-redo mr-1"></i> 立即重試
+                    </button>
+                    <button
+                      onClick={() => onRemove(entry.id)}
+                      className="flex-1 py-1.5 rounded-lg text-xs font-bold border bg-white text-red-600 border-red-200 hover:bg-red-50 transition-colors"
+                    >
+                      <i className="fas fa-trash mr-1"></i> 取消上傳
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        <div className="bg-white border-t border-slate-100 p-4 shrink-0 z-10">
+          <button
+            onClick={onClose}
+            className="w-full py-3 rounded-xl font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 transition-colors"
+          >
+            關閉
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,21 +1,38 @@
 ﻿import React, { useMemo, useState } from 'react';
-import { AppState, InterruptionItem } from '../types';
-import { formatTimeDisplay } from '../services/timeUtils';
-import { buildOrderedRecord, getCorrectedTimes, validateRecord } from '../services/recordExport';
-
-const GOOGLE_SCRIPT_URL: string = "https://script.google.com/macros/s/AKfycbwR3F9FXos_LTuUoRhkDFLhmRdPNEvFC4NmefJdNrnfBDQodxX3DFH-rtqS16PM0vdDeg/exec"; 
-const GOOGLE_SHEET_URL: string = "https://docs.google.com/spreadsheets/d/1DxjxcX5eklxkuXsQwRphw1z_eT8AOgD9OJavBCpjfcM/edit?gid=0#gid=0";
+import { AppSettings, AppState, EmtTimeField, OutboxEntry, TimeRecord } from '../types';
+import { formatTimeDisplay, getEmtSpreadSeconds, parseCaseTime } from '../services/timeUtils';
+import { buildOrderedRecord, downloadTextFile, formatDateTime, validateRecord } from '../services/recordExport';
+import { computeCaseMetrics, formatMetric, getCorrectedTimes, metricExportValue } from '../services/metrics';
+import { buildDetailedInterruptions } from '../services/interruptions';
+import { buildTimeline, timelineToSvg, timelineToText } from '../services/timeline';
+import { exportCaseReport, printCaseReport } from '../services/caseReport';
+import { GRADE_LABELS, Grade, ThresholdGrades, scoreCase } from '../services/scoring';
+import { FieldTarget, ValidationMessage } from '../services/validationRules';
+import { SOURCE_SPREAD_WARN_SECONDS, TIME_FIELD_LABELS, TIME_SOURCE_LABELS } from '../constants';
+import { enqueueSubmission, getOutboxEntries, getSubmissionHistory, processOutbox } from '../services/outbox';
 
 interface Props {
   data: AppState;
+  caseKey: string; // Case library id, used to avoid sending the same case twice
+  settings: AppSettings;
   onClose: () => void;
   onSubmit: () => void;
+  onJumpTo: (target: FieldTarget) => void; // Closes the preview and focuses the field in its tab
 }
 
-export const PreviewModal: React.FC<Props> = ({ data, onClose, onSubmit }) => {
+const GRADE_STYLES: Record<Grade, string> = {
+  pass: 'bg-green-50 text-green-700 border-green-200',
+  warn: 'bg-accent-50 text-medical-600 border-accent-200',
+  fail: 'bg-red-50 text-red-600 border-red-200',
+};
+
+const GRADE_EMOJI: Record<Grade, string> = { pass: '✅', warn: '⚠️', fail: '❌' };
+
+export const PreviewModal: React.FC<Props> = ({ data, caseKey, settings, onClose, onSubmit, onJumpTo }) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
+  const [submitted, setSubmitted] = useState<OutboxEntry[]>([]);
 
   // --- Calculations for Times (Moved up for validation) ---
   const times = useMemo(() => {
@@ -23,121 +40,44 @@ export const PreviewModal: React.FC<Props> = ({ data, onClose, onSubmit }) => {
   }, [data]);
 
   // --- Validation Logic ---
-  const { missingFields, logicErrors } = useMemo(() => {
+  const { missingFields, logicErrors, warnings } = useMemo(() => {
     return validateRecord(data, times);
   }, [data, times]);
 
   const isValid = missingFields.length === 0 && logicErrors.length === 0;
 
-  // --- Calculations (Rest of them) ---
-
-  // Helper for 4-digit MMSS time calc
-  const calculateMMSSSeconds = (mmss: string) => {
-    if (!mmss || mmss.length !== 4) return 0;
-    const mins = parseInt(mmss.substring(0, 2), 10);
-    const secs = parseInt(mmss.substring(2, 4), 10);
-    if (isNaN(mins) || isNaN(secs)) return 0;
-    return (mins * 60) + secs;
-  };
+  // --- Metrics (shared with the CSV/Excel export) ---
+  const metrics = useMemo(() => computeCaseMetrics(data, times), [data, times]);
 
-  const calculateInterruption = (items: InterruptionItem[]) => {
-    return items.reduce((acc, item) => {
-      const startSec = calculateMMSSSeconds(item.start);
-      const endSec = calculateMMSSSeconds(item.end);
-      const diff = endSec > startSec ? endSec - startSec : 0;
-      return acc + diff;
-    }, 0);
-  };
+  // --- Grades against the deployment's QC targets ---
+  const { metrics: graded, score } = useMemo(() => scoreCase(data, settings.thresholds, metrics), [data, settings.thresholds, metrics]);
+  const grades = Object.fromEntries(graded.map(item => [item.key, item.grade])) as ThresholdGrades;
+  const gradeMark = (grade: Grade | null) => (grade ? ` ${GRADE_EMOJI[grade]}` : '');
 
-  const interruptionPads = calculateInterruption(data.interruptionRecords.beforePads);
-  const interruptionMcpr = calculateInterruption(data.interruptionRecords.beforeMcpr);
-
-  // 智慧型時間差計算：處理跨日問題
-  const getSafeDuration = (start: Date | null, end: Date | null): number | null => {
-    if (!start || !end) return null;
-    let diff = (end.getTime() - start.getTime()) / 1000;
-    
-    // 若時間差小於 -12 小時 (-43200秒)，極大機率為跨日案件但未調整日期 (例如 23:59 -> 00:01)
-    // 此時自動補正 +24 小時 (+86400秒)
-    if (diff < -43200) {
-        diff += 86400;
-    }
-    
-    return Math.floor(diff);
-  };
+  // --- How far the EMT entries of each field disagree after calibration ---
+  const sourceSpreads = useMemo(() => {
+    return (Object.keys(data.timeSources) as EmtTimeField[])
+      .map(field => ({ field, seconds: getEmtSpreadSeconds(data.timeRecords[field], data.calibration, data.timeZone) }))
+      .filter((spread): spread is { field: EmtTimeField; seconds: number } => spread.seconds !== null);
+  }, [data]);
 
-  // 檢查是否為 N/A 狀態
-  const isMcprNA = data.timeRecords.mcprSetup.emt1 === 'N/A';
-  const isVentNA = data.timeRecords.firstVentilation.emt1 === 'N/A';
-  const isAirwayNA = data.timeRecords.airway.emt1 === 'N/A';
-
-  // Base metrics
-  const cprDelay = getSafeDuration(times.ohca, times.cpr);
-  const padsDelay = getSafeDuration(times.ohca, times.pads);
-  // 若給氣未執行，時間差計算為 null，後續顯示邏輯會處理文字
-  const bvmTime = isVentNA ? null : getSafeDuration(times.ohca, times.vent); 
-  const medDelay = getSafeDuration(times.ohca, times.med);
-  // 若呼吸道未建立，時間差計算為 null
-  const airwayTime = isAirwayNA ? null : getSafeDuration(times.ohca, times.airway);
-
-  // CCF 計算邏輯
-  // 1. 計算 OHCA -> Pads 的總時間 (保留給 Google Sheet 原始欄位計算)
-  const durationOhcaToPads = getSafeDuration(times.ohca, times.pads);
-  const timeInCompPreAed = (durationOhcaToPads !== null) 
-    ? durationOhcaToPads - interruptionPads 
-    : null;
-
-  // 2. 計算 Pads -> MCPR (或 AED Off) 的總時間 (保留給 Google Sheet 原始欄位計算)
-  const durationPadsToMcpr = isMcprNA 
-     ? getSafeDuration(times.pads, times.aedOff) 
-     : getSafeDuration(times.pads, times.mcpr);
-
-  const timeInCompPreMcpr = (durationPadsToMcpr !== null)
-    ? durationPadsToMcpr - interruptionMcpr
-    : null;
-
-  // 3. 計算整體 CCF (依據新公式修正)
-  let overallCCF = 'N/A';
-
-  // 分母：總持續時間 (AED Off - OHCA)，無論有無 MCPR，皆以 AED 關機為終點
-  const totalDurationForCCF = getSafeDuration(times.ohca, times.aedOff);
-
-  if (totalDurationForCCF !== null && totalDurationForCCF > 0) {
-      let totalCompSeconds = 0;
-
-      if (isMcprNA) {
-          // 無 MCPR：分子 = (AED Off - OHCA) - interruptionPads
-          totalCompSeconds = totalDurationForCCF - interruptionPads;
-      } else {
-          // 有 MCPR：分子 = (AED Off - OHCA) - interruptionPads - interruptionMcpr
-          totalCompSeconds = totalDurationForCCF - interruptionPads - interruptionMcpr;
-      }
-
-      overallCCF = ((totalCompSeconds / totalDurationForCCF) * 100).toFixed(1) + '%';
-  } else if (totalDurationForCCF !== null && totalDurationForCCF <= 0) {
-      overallCCF = '時間錯誤'; // 分母非正數
-  }
+  // --- Timeline chart, also printed, downloaded and pasted with the copied summary ---
+  const timeline = useMemo(() => buildTimeline(data, times), [data, times]);
+  const timelineSvg = useMemo(() => (timeline ? timelineToSvg(timeline, data.timeZone) : ''), [timeline, data.timeZone]);
+  const timelineFileName = `OHCA-${data.basicInfo.caseId || 'record'}-timeline`;
 
-  // Format Helper for Display (MM:SS)
-  const formatDurationDisplay = (val: number | string | null): string => {
-      if (val === null) return '--';
-      if (typeof val === 'string') return val;
-      
-      const absVal = Math.abs(val);
-      if (absVal < 60) {
-          return `${Math.floor(val)}秒`;
-      }
-      
-      const mins = Math.floor(absVal / 60);
-      const secs = Math.floor(absVal % 60);
-      // Use original sign if needed, though mostly durations are positive
-      return `${mins}分${secs}秒`;
+  const handlePrintTimeline = () => {
+    const win = window.open('', '_blank');
+    if (!win) {
+      alert('無法開啟列印視窗，請允許彈出式視窗');
+      return;
+    }
+    win.document.write(`<!DOCTYPE html><html><head><meta charset="UTF-8"><title>${timelineFileName}</title></head><body style="margin:16px">${timelineSvg}</body></html>`);
+    win.document.close();
+    win.focus();
+    win.print();
   };
 
-  // Pre-calculate display strings for consistency
-  const bvmText = isVentNA ? '未執行 BVM' : formatDurationDisplay(bvmTime);
-  const airwayText = isAirwayNA ? '未建立輔助呼吸道' : formatDurationDisplay(airwayTime);
-
     // Generate payload for Google Sheet
     const handleSubmit = async () => {
         if (!isValid) return;
@@ -145,40 +85,24 @@ export const PreviewModal: React.FC<Props> = ({ data, onClose, onSubmit }) => {
         setIsSubmitting(true);
         
         // Formatting helper
-        const formatDateTime = (d: Date | null) => {
-            if (!d || isNaN(d.getTime())) return '';
-            const pad = (n: number) => n.toString().padStart(2, '0');
-            return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
-        };
-        const fmt = (d: Date | null) => formatDateTime(d);
-        const rawFmt = (t: string | object) => {
+        const fmt = (d: Date | null) => formatDateTime(d, data.timeZone);
+        const rawFmt = (key: keyof TimeRecord) => {
+            const t = data.timeRecords[key];
             let val = '';
             if (typeof t === 'string') val = t;
             else {
-                const vals = Object.values(t);
+                // The raw entry behind the corrected time when a single EMT was chosen as source
+                const source = data.timeSources[key as EmtTimeField];
+                const vals = source === 'emt1' || source === 'emt2' || source === 'emt3' ? [t[source]] : Object.values(t);
                 val = vals.find(v => v && v !== 'N/A') as string || '';
             }
             if (!val) return '';
-            const d = new Date(val);
-            return isNaN(d.getTime()) ? val : formatDateTime(d);
+            const d = parseCaseTime(val, data.timeZone);
+            return d ? fmt(d) : val;
         };
 
-        // Prepare detailed interruptions list (Reason 1, Duration 1, Reason 2, Duration 2...)
-        const flatInterruptions = [
-            ...data.interruptionRecords.beforePads,
-            ...data.interruptionRecords.beforeMcpr
-        ];
-
-        const detailedInterruptions: Record<string, string> = {};
-        flatInterruptions.forEach((item, index) => {
-            const num = index + 1; // 1-based index (1 to 15)
-            const start = calculateMMSSSeconds(item.start);
-            const end = calculateMMSSSeconds(item.end);
-            const duration = (end > start) ? end - start : 0;
-            
-            detailedInterruptions[`reason${num}`] = item.reason || '';
-            detailedInterruptions[`duration${num}`] = duration > 0 ? duration.toString() : '';
-        });
+        // Reason/duration per interruption in the legacy slots, plus the overflow beyond them
+        const detailedInterruptions = buildDetailedInterruptions(data.interruptionRecords, data.interruptionTimeBase.kind);
 
         // Construct payload to match the structure expected by your Google Apps Script
         const payload = {
@@ -187,16 +111,16 @@ export const PreviewModal: React.FC<Props> = ({ data, onClose, onSubmit }) => {
                 battalion: data.basicInfo.battalion || ''
             },
             rawTimes: {
-                found: rawFmt(data.timeRecords.found),
-                contact: rawFmt(data.timeRecords.contact),
-                ohca: rawFmt(data.timeRecords.ohcaJudgment),
-                cpr: rawFmt(data.timeRecords.cprStart),
-                pads: rawFmt(data.timeRecords.padsOn),
-                vent: rawFmt(data.timeRecords.firstVentilation),
-                airway: rawFmt(data.timeRecords.airway),
-                mcpr: rawFmt(data.timeRecords.mcprSetup),
-                med: rawFmt(data.timeRecords.firstMed),
-                rosc: rawFmt(data.timeRecords.rosc),
+                found: rawFmt('found'),
+                contact: rawFmt('contact'),
+                ohca: rawFmt('ohcaJudgment'),
+                cpr: rawFmt('cprStart'),
+                pads: rawFmt('padsOn'),
+                vent: rawFmt('firstVentilation'),
+                airway: rawFmt('airway'),
+                mcpr: rawFmt('mcprSetup'),
+                med: rawFmt('firstMed'),
+                rosc: rawFmt('rosc'),
             },
             correctedTimes: {
                 ohca: fmt(times.ohca),
@@ -210,18 +134,18 @@ export const PreviewModal: React.FC<Props> = ({ data, onClose, onSubmit }) => {
                 rosc: fmt(times.rosc),
             },
             metrics: {
-                cprDelay: cprDelay !== null ? cprDelay : '',
-                padsDelay: padsDelay !== null ? padsDelay : '',
-                bvmTime: bvmTime !== null ? bvmTime : (isVentNA ? '未執行 BVM' : ''),
-                airwayTime: airwayTime !== null ? airwayTime : (isAirwayNA ? '未建立輔助呼吸道' : ''),
-                medDelay: medDelay !== null ? medDelay : '',
-                ccf: overallCCF,
-                preAedComp: timeInCompPreAed !== null ? timeInCompPreAed : '',
-                preMcprComp: timeInCompPreMcpr !== null ? timeInCompPreMcpr : '',
+                cprDelay: metricExportValue(metrics.cprDelay),
+                padsDelay: metricExportValue(metrics.padsDelay),
+                bvmTime: metricExportValue(metrics.bvmTime),
+                airwayTime: metricExportValue(metrics.airwayTime),
+                medDelay: metricExportValue(metrics.medDelay),
+                ccf: metricExportValue(metrics.ccf),
+                preAedComp: metricExportValue(metrics.compressionBeforePads),
+                preMcprComp: metricExportValue(metrics.compressionBeforeMcpr),
             },
             interruptions: {
-                pads: interruptionPads,
-                mcpr: interruptionMcpr
+                pads: metrics.interruptionPads.value,
+                mcpr: metrics.interruptionMcpr.value
             },
             technical: {
                 ...data.technicalInfo
@@ -229,25 +153,45 @@ export const PreviewModal: React.FC<Props> = ({ data, onClose, onSubmit }) => {
             feedbackPatch: {
                 ...data.feedbackPatchInfo
             },
-            orderedRecord: buildOrderedRecord(data),
+            orderedRecord: buildOrderedRecord(data, settings.thresholds),
             detailedInterruptions
         };
 
+        if (!settings.scriptUrl) {
+            setIsSubmitting(false);
+            setErrorMessage('尚未設定上傳網址，請至「上傳設定」填寫');
+            return;
+        }
+
         try {
-            await fetch(GOOGLE_SCRIPT_URL, {
-                method: 'POST',
-                mode: 'no-cors',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(payload)
-            });
+            const history = await getSubmissionHistory(caseKey, payload);
+            if (history === 'identical') {
+                setIsSubmitting(false);
+                setErrorMessage('此案件的相同資料已上傳過，不會重複送出');
+                return;
+            }
+            if (history === 'changed' && !window.confirm('此案件已上傳過。\n\n確定要再次上傳修改後的資料嗎？')) {
+                setIsSubmitting(false);
+                return;
+            }
+
+            // Queue first, then try to send right away; anything not delivered is retried later
+            const { entryIds } = await enqueueSubmission(caseKey, data.basicInfo.caseId, payload, settings);
+            await processOutbox();
+            setSubmitted(await getOutboxEntries(entryIds));
             setIsSubmitting(false);
             setIsSuccess(true);
         } catch (error) {
+            console.error('Failed to queue submission', error);
             setIsSubmitting(false);
-            setErrorMessage('上傳失敗，請檢查網路連線');
+            setErrorMessage('無法加入上傳佇列，請再試一次');
         }
     };
 
+  const handlePrintReport = () => {
+    if (!printCaseReport(data, settings.thresholds)) alert('無法開啟列印視窗，請允許彈出式視窗');
+  };
+
   const handleCopyResult = async () => {
     const members = [
         data.basicInfo.member1, data.basicInfo.member2, data.basicInfo.member3,
@@ -262,19 +206,20 @@ export const PreviewModal: React.FC<Props> = ({ data, onClose, onSubmit }) => {
 
 💓 AED 初始心律：${data.technicalInfo.initialRhythm || '未記錄'}
 
-⏱️ 時間指標：
-判斷OHCA ⮕ CPR開始：${formatDurationDisplay(cprDelay)}
-判斷OHCA ⮕ 貼片貼上：${formatDurationDisplay(padsDelay)}
-第一次BVM所需時間：${bvmText}
-建立呼吸道時間：${airwayText}
-給藥速率：${formatDurationDisplay(medDelay)}
+⏱️ 時間指標：${score === null ? '' : `(品管分數 ${score})`}
+判斷OHCA ⮕ CPR開始：${formatMetric(metrics.cprDelay)}${gradeMark(grades.cprDelay)}
+判斷OHCA ⮕ 貼片貼上：${formatMetric(metrics.padsDelay)}${gradeMark(grades.padsDelay)}
+第一次BVM所需時間：${formatMetric(metrics.bvmTime)}${gradeMark(grades.bvmTime)}
+建立呼吸道時間：${formatMetric(metrics.airwayTime)}${gradeMark(grades.airwayTime)}
+給藥速率：${formatMetric(metrics.medDelay)}${gradeMark(grades.medDelay)}
+去顫前停滯時間：${data.feedbackPatchInfo.preShockPauseTime || '--'}${gradeMark(grades.preShockPause)}
 
 ⚠️ CPR 中斷：
-貼片前中斷：${formatDurationDisplay(interruptionPads)}
-MCPR前中斷：${formatDurationDisplay(interruptionMcpr)}
+貼片前中斷：${formatMetric(metrics.interruptionPads)}
+MCPR前中斷：${formatMetric(metrics.interruptionMcpr)}
 
 📊 CCF 數據：
-整體 CCF：${overallCCF}
+整體 CCF：${formatMetric(metrics.ccf)}${gradeMark(grades.ccf)}
 
 🛠️ 處置認列：
 AED 貼片位置是否正確：${data.technicalInfo.aedPadCorrect || '--'}
@@ -285,10 +230,22 @@ AED 貼片位置是否正確：${data.technicalInfo.aedPadCorrect || '--'}
 ETCO2 有無放置：${data.technicalInfo.etco2Used || '--'}
 
 📝 品管點評：
-${data.basicInfo.memo || '無'}`;
+${data.basicInfo.memo || '無'}${timeline ? `
+
+🕒 時間軸：
+${timelineToText(timeline, data.timeZone)}` : ''}`;
 
     try {
-        await navigator.clipboard.writeText(text);
+        // Apps that take HTML get the chart as well; others paste the text
+        if (timelineSvg && typeof ClipboardItem !== 'undefined') {
+            const html = `<div><pre style="font-family:inherit">${text.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</pre>${timelineSvg}</div>`;
+            await navigator.clipboard.write([new ClipboardItem({
+                'text/plain': new Blob([text], { type: 'text/plain' }),
+                'text/html': new Blob([html], { type: 'text/html' }),
+            })]);
+        } else {
+            await navigator.clipboard.writeText(text);
+        }
         alert('已複製到剪貼簿！');
     } catch (err) {
         console.error('Copy failed', err);
@@ -296,6 +253,18 @@ ${data.basicInfo.memo || '無'}`;
     }
   };
 
+  // A validation message; with a target it is a link that closes the preview and focuses the input
+  const renderIssue = ({ message, target }: ValidationMessage, key: string) => (
+    <li key={key}>
+      {target ? (
+        <button onClick={() => onJumpTo(target)} className="text-left hover:underline" title="前往修正">
+          {message}
+          <i className="fas fa-arrow-right text-[10px] ml-1 opacity-60"></i>
+        </button>
+      ) : message}
+    </li>
+  );
+
   const renderSectionHeader = (title: string, icon: string) => (
     <div className="bg-medical-50 px-3 py-2 rounded-lg font-bold text-medical-600 text-sm flex items-center mt-6 mb-2 first:mt-0 border border-medical-100">
       <i className={`fas ${icon} mr-2 w-5 text-center text-accent-600`}></i>
@@ -303,22 +272,70 @@ ${data.basicInfo.memo || '無'}`;
     </div>
   );
 
-  const renderSimpleRow = (label: string, value: string) => (
+  const renderSimpleRow = (label: string, value: string, grade: Grade | null = null) => (
     <div className="flex justify-between items-start py-2 border-b border-slate-50 last:border-0 text-sm">
         <span className="text-slate-600 font-medium shrink-0 mr-4">{label}</span>
-        <span className="text-slate-800 text-right font-mono break-words max-w-[60%]">{value}</span>
+        <span className="text-slate-800 text-right font-mono break-words max-w-[60%]">
+            {value}
+            {grade && (
+                <span className={`ml-2 px-1.5 py-0.5 rounded text-[10px] font-bold font-sans border ${GRADE_STYLES[grade]}`}>
+                    {GRADE_LABELS[grade]}
+                </span>
+            )}
+        </span>
     </div>
   );
 
   if (isSuccess) {
+      const endpointLabel = (entry: OutboxEntry) => entry.endpointName || entry.url;
+      const rejected = submitted.filter(entry => entry.status === 'failed');
+      const waiting = submitted.filter(entry => entry.status === 'pending' || entry.status === 'sending');
+      const delivered = submitted.filter(entry => entry.status === 'sent');
       return (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm animate-fadeIn">
               <div className="bg-white rounded-xl p-8 text-center shadow-xl max-w-sm w-full">
-                  <div className="w-16 h-16 bg-accent-50 text-accent-600 rounded-full flex items-center justify-center mx-auto mb-4 border border-accent-200">
-                      <i className="fas fa-check text-2xl"></i>
-                  </div>
-                  <h2 className="text-xl font-bold text-medical-600 mb-2">上傳成功</h2>
-                  <p className="text-slate-500 mb-6">資料已成功傳送至 Google Sheet</p>
+                  {rejected.length > 0 ? (
+                      <div className="w-16 h-16 bg-red-50 text-red-600 rounded-full flex items-center justify-center mx-auto mb-4 border border-red-200">
+                          <i className="fas fa-exclamation text-2xl"></i>
+                      </div>
+                  ) : (
+                      <div className="w-16 h-16 bg-accent-50 text-accent-600 rounded-full flex items-center justify-center mx-auto mb-4 border border-accent-200">
+                          <i className="fas fa-check text-2xl"></i>
+                      </div>
+                  )}
+                  <h2 className="text-xl font-bold text-medical-600 mb-2">
+                      {rejected.length > 0 ? '上傳未被接受' : waiting.length > 0 ? '已加入待送佇列' : '上傳成功'}
+                  </h2>
+                  <p className="text-slate-500 mb-6">
+                      {rejected.length > 0
+                          ? '伺服器未寫入資料，請依下方原因修正後於「待送佇列」重試'
+                          : waiting.length > 0
+                              ? '目前無法連線，恢復網路後將自動上傳，可於「待送佇列」查看進度'
+                              : '資料已成功傳送至 Google Sheet'}
+                  </p>
+                  {rejected.length > 0 && (
+                      <div className="bg-red-50 border border-red-200 text-red-600 rounded-lg p-3 text-xs text-left mb-4 space-y-1">
+                          {rejected.map(entry => (
+                              <div key={entry.id}>{endpointLabel(entry)}：{entry.lastError}</div>
+                          ))}
+                      </div>
+                  )}
+                  {waiting.length > 0 && (
+                      <div className="bg-accent-50 border border-accent-200 text-medical-600 rounded-lg p-3 text-xs text-left mb-4">
+                          <i className="fas fa-clock mr-1"></i>
+                          等待上傳：{waiting.map(endpointLabel).join('、')}
+                      </div>
+                  )}
+                  {delivered.length > 0 && (
+                      <div className="bg-medical-50 border border-medical-100 text-medical-600 rounded-lg p-3 text-xs text-left mb-4 space-y-1">
+                          {delivered.map(entry => (
+                              <div key={entry.id}>
+                                  <i className="fas fa-receipt mr-1"></i>
+                                  {endpointLabel(entry)}：{entry.receipt ? `已寫入第 ${entry.receipt.rowId} 列` : '已送出，未取得回條'}
+                              </div>
+                          ))}
+                      </div>
+                  )}
                   
                   <div className="space-y-3">
                     <button 
@@ -327,14 +344,16 @@ ${data.basicInfo.memo || '無'}`;
                     >
                         <i className="fas fa-copy"></i> 複製品管成果文字
                     </button>
-                    <a 
-                        href={GOOGLE_SHEET_URL}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="w-full py-3 bg-accent-500 text-medical-900 rounded-lg font-bold hover:bg-accent-600 transition-colors shadow-lg flex items-center justify-center gap-2"
-                    >
-                        <i className="fas fa-table"></i> 前往資料庫
-                    </a>
+                    {settings.sheetUrl && (
+                        <a 
+                            href={settings.sheetUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="w-full py-3 bg-accent-500 text-medical-900 rounded-lg font-bold hover:bg-accent-600 transition-colors shadow-lg flex items-center justify-center gap-2"
+                        >
+                            <i className="fas fa-table"></i> 前往資料庫
+                        </a>
+                    )}
                     <button 
                         onClick={() => { onClose(); onSubmit(); }}
                         className="w-full py-3 bg-white border border-slate-300 text-slate-600 rounded-lg font-bold hover:bg-slate-50 transition-colors"
@@ -374,15 +393,13 @@ ${data.basicInfo.memo || '無'}`;
                 <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
                     <div className="flex items-center text-red-800 font-bold mb-2">
                         <i className="fas fa-exclamation-triangle mr-2"></i>
-                        請修正以下錯誤以繼續
+                        請修正以下錯誤以繼續 (點選項目可前往該欄位)
                     </div>
                     {missingFields.length > 0 && (
                         <div className="mb-2">
                             <p className="text-xs font-bold text-red-700 mb-1">未填寫項目：</p>
                             <ul className="list-disc list-inside text-sm text-red-600 space-y-1">
-                                {missingFields.map((field, idx) => (
-                                    <li key={`missing-${idx}`}>{field}</li>
-                                ))}
+                                {missingFields.map((field, idx) => renderIssue(field, `missing-${idx}`))}
                             </ul>
                         </div>
                     )}
@@ -390,15 +407,26 @@ ${data.basicInfo.memo || '無'}`;
                         <div>
                             <p className="text-xs font-bold text-red-700 mb-1">時間邏輯錯誤：</p>
                             <ul className="list-disc list-inside text-sm text-red-600 space-y-1">
-                                {logicErrors.map((err, idx) => (
-                                    <li key={`logic-${idx}`}>{err}</li>
-                                ))}
+                                {logicErrors.map((err, idx) => renderIssue(err, `logic-${idx}`))}
                             </ul>
                         </div>
                     )}
                 </div>
             )}
 
+            {/* Warnings: shown for the reviewer to confirm, do not block upload */}
+            {warnings.length > 0 && (
+                <div className="bg-accent-50 border border-accent-200 rounded-lg p-4 mb-4">
+                    <div className="flex items-center text-medical-600 font-bold mb-2">
+                        <i className="fas fa-exclamation-circle mr-2"></i>
+                        請確認以下項目
+                    </div>
+                    <ul className="list-disc list-inside text-sm text-medical-600 space-y-1">
+                        {warnings.map((warning, idx) => renderIssue(warning, `warning-${idx}`))}
+                    </ul>
+                </div>
+            )}
+
             {/* Basic Info Preview */}
             {renderSectionHeader('基本資料', 'fa-info-circle')}
             <div className="bg-white rounded-lg border border-medical-100 px-4 py-1">
@@ -410,26 +438,69 @@ ${data.basicInfo.memo || '無'}`;
             </div>
 
             {/* Time Metrics */}
-            {renderSectionHeader('時間指標', 'fa-stopwatch')}
+            {renderSectionHeader(score === null ? '時間指標' : `時間指標 (品管分數 ${score})`, 'fa-stopwatch')}
             <div className="bg-white rounded-lg border border-medical-100 px-4 py-1">
-                {renderSimpleRow('判斷OHCA ⮕ CPR開始', formatDurationDisplay(cprDelay))}
-                {renderSimpleRow('判斷OHCA ⮕ 貼片貼上', formatDurationDisplay(padsDelay))}
-                {renderSimpleRow('第一次BVM所需時間', bvmText)}
-                {renderSimpleRow('建立呼吸道時間', airwayText)}
-                {renderSimpleRow('給藥速率', formatDurationDisplay(medDelay))}
+                {renderSimpleRow('判斷OHCA ⮕ CPR開始', formatMetric(metrics.cprDelay), grades.cprDelay)}
+                {renderSimpleRow('判斷OHCA ⮕ 貼片貼上', formatMetric(metrics.padsDelay), grades.padsDelay)}
+                {renderSimpleRow('第一次BVM所需時間', formatMetric(metrics.bvmTime), grades.bvmTime)}
+                {renderSimpleRow('建立呼吸道時間', formatMetric(metrics.airwayTime), grades.airwayTime)}
+                {renderSimpleRow('給藥速率', formatMetric(metrics.medDelay), grades.medDelay)}
             </div>
 
+            {/* EMT source spread: large disagreements usually mean a wrong watch or calibration */}
+            {sourceSpreads.length > 0 && renderSectionHeader('EMT 時間來源差異', 'fa-user-clock')}
+            {sourceSpreads.length > 0 && (
+                <div className="bg-white rounded-lg border border-medical-100 px-4 py-1">
+                    {sourceSpreads.map(({ field, seconds }) => (
+                        <div key={field} className="flex justify-between items-start py-2 border-b border-slate-50 last:border-0 text-sm">
+                            <span className="text-slate-600 font-medium shrink-0 mr-4">
+                                {TIME_FIELD_LABELS[field]}
+                                <span className="text-[10px] text-slate-400 ml-1">({TIME_SOURCE_LABELS[data.timeSources[field]]})</span>
+                            </span>
+                            <span className={`text-right font-mono ${seconds > SOURCE_SPREAD_WARN_SECONDS ? 'text-red-600 font-bold' : 'text-slate-800'}`}>
+                                {seconds > SOURCE_SPREAD_WARN_SECONDS && <i className="fas fa-exclamation-triangle mr-1"></i>}
+                                相差 {seconds} 秒
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {/* Interruptions */}
             {renderSectionHeader('CPR 中斷', 'fa-pause-circle')}
             <div className="bg-white rounded-lg border border-medical-100 px-4 py-1">
-                {renderSimpleRow('貼片前中斷', formatDurationDisplay(interruptionPads))}
-                {renderSimpleRow('MCPR前中斷', formatDurationDisplay(interruptionMcpr))}
+                {renderSimpleRow('貼片前中斷', formatMetric(metrics.interruptionPads))}
+                {renderSimpleRow('MCPR前中斷', formatMetric(metrics.interruptionMcpr))}
             </div>
 
+            {/* Timeline */}
+            {renderSectionHeader('急救時間軸', 'fa-stream')}
+            {timeline ? (
+                <div className="bg-white rounded-lg border border-medical-100 p-2">
+                    <div className="overflow-x-auto" dangerouslySetInnerHTML={{ __html: timelineSvg }} />
+                    <div className="flex gap-2 mt-2">
+                        <button
+                            onClick={handlePrintTimeline}
+                            className="flex-1 py-2 rounded-lg text-xs font-bold border border-medical-100 text-medical-600 hover:bg-medical-50 transition-colors"
+                        >
+                            <i className="fas fa-print mr-1"></i> 列印
+                        </button>
+                        <button
+                            onClick={() => downloadTextFile(timelineSvg, `${timelineFileName}.svg`, 'image/svg+xml;charset=utf-8')}
+                            className="flex-1 py-2 rounded-lg text-xs font-bold border border-medical-100 text-medical-600 hover:bg-medical-50 transition-colors"
+                        >
+                            <i className="fas fa-download mr-1"></i> 下載 SVG
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <div className="bg-white rounded-lg border border-medical-100 px-4 py-3 text-sm text-slate-400">尚無可顯示的時間</div>
+            )}
+
             {/* CCF */}
             {renderSectionHeader('CCF 數據', 'fa-chart-pie')}
             <div className="bg-white rounded-lg border border-medical-100 px-4 py-1">
-                {renderSimpleRow('整體 CCF', overallCCF)}
+                {renderSimpleRow('整體 CCF', formatMetric(metrics.ccf), grades.ccf)}
             </div>
 
             {/* Technical */}
@@ -456,10 +527,27 @@ ${data.basicInfo.memo || '無'}`;
                 {renderSimpleRow('目標中 - 徒手深度(%)', data.feedbackPatchInfo.targetManualDepthPercent || '--')}
                 {renderSimpleRow('目標中 - 徒手速率(%)', data.feedbackPatchInfo.targetManualRatePercent || '--')}
                 {renderSimpleRow('目標中 - 徒手按壓(%)', data.feedbackPatchInfo.targetManualCompressionPercent || '--')}
-                {renderSimpleRow('去顫前停滯時間(未電擊=N/A)', data.feedbackPatchInfo.preShockPauseTime || '--')}
+                {renderSimpleRow('去顫前停滯時間(未電擊=N/A)', data.feedbackPatchInfo.preShockPauseTime || '--', grades.preShockPause)}
                 {renderSimpleRow('去顫後停滯時間(未電擊=N/A)', data.feedbackPatchInfo.postShockPauseTime || '--')}
             </div>
 
+            {/* Crew feedback report */}
+            {renderSectionHeader('回饋報告', 'fa-file-alt')}
+            <div className="flex gap-2">
+                <button
+                    onClick={handlePrintReport}
+                    className="flex-1 py-2 rounded-lg text-sm font-bold bg-medical-600 text-white hover:bg-medical-700 transition-colors"
+                >
+                    <i className="fas fa-print mr-1"></i> 列印報告
+                </button>
+                <button
+                    onClick={() => exportCaseReport(data, settings.thresholds)}
+                    className="flex-1 py-2 rounded-lg text-sm font-bold border border-medical-100 text-medical-600 hover:bg-medical-50 transition-colors"
+                >
+                    <i className="fas fa-download mr-1"></i> 下載 HTML
+                </button>
+            </div>
+
             {/* Error Message */}
             {errorMessage && (
                 <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm text-center mt-4">
@@ -0,0 +1,223 @@
+import React, { useRef, useState } from 'react';
+import { AppSettings, MetricThreshold, SubmissionEndpoint, ThresholdKey } from '../types';
+import { DEFAULT_SETTINGS, parseSettingsFile, validateSettings } from '../services/settings';
+import { THRESHOLD_METRICS } from '../services/scoring';
+import { InputGroup } from './InputGroup';
+
+interface Props {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+export const SettingsModal: React.FC<Props> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [problems, setProblems] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateEndpoint = (index: number, field: keyof SubmissionEndpoint, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      additionalEndpoints: prev.additionalEndpoints.map((endpoint, i) => (i === index ? { ...endpoint, [field]: value } : endpoint)),
+    }));
+  };
+
+  const updateThreshold = (key: ThresholdKey, field: keyof MetricThreshold, value: string) => {
+    const limit = value.trim() === '' ? null : Number(value);
+    setDraft(prev => ({
+      ...prev,
+      thresholds: { ...prev.thresholds, [key]: { ...prev.thresholds[key], [field]: limit } },
+    }));
+  };
+
+  const addEndpoint = () => {
+    setDraft(prev => ({ ...prev, additionalEndpoints: [...prev.additionalEndpoints, { name: '', url: '' }] }));
+  };
+
+  const removeEndpoint = (index: number) => {
+    setDraft(prev => ({ ...prev, additionalEndpoints: prev.additionalEndpoints.filter((_, i) => i !== index) }));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setDraft(parseSettingsFile(await file.text(), draft.thresholds));
+      setProblems([]);
+    } catch (err) {
+      setProblems([`無法匯入設定檔：${err instanceof Error ? err.message : err}`]);
+    }
+  };
+
+  const handleSave = () => {
+    const found = validateSettings(draft);
+    setProblems(found);
+    if (found.length === 0) onSave(draft);
+  };
+
+  const handleRestoreDefaults = () => {
+    if (window.confirm('確定要恢復為預設的上傳網址、試算表連結與品管目標嗎？')) {
+      setDraft(DEFAULT_SETTINGS);
+      setProblems([]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white w-full max-w-lg sm:rounded-2xl rounded-t-2xl shadow-2xl max-h-[90vh] flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-white border-b border-slate-100 p-4 flex justify-between items-center shrink-0 z-10">
+          <h2 className="text-lg font-bold text-medical-600 flex items-center">
+            <i className="fas fa-cog text-accent-600 mr-2"></i>
+            上傳設定
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors p-2 -mr-2">
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 overflow-y-auto flex-1">
+          <div className="bg-accent-50 p-3 rounded-lg border border-accent-200 text-medical-600 text-xs mb-4">
+            <i className="fas fa-info-circle mr-1"></i>
+            請依 setup.html 的步驟部署 Apps Script，並匯入該頁產生的設定檔，或手動貼上部署網址。
+          </div>
+
+          {problems.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+              <ul className="list-disc list-inside text-sm text-red-600 space-y-1">
+                {problems.map((problem, idx) => (
+                  <li key={`problem-${idx}`} className="whitespace-pre-line">{problem}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <InputGroup
+            label="上傳網址 (Apps Script 部署網址)"
+            type="url"
+            placeholder="https://script.google.com/macros/s/.../exec"
+            value={draft.scriptUrl}
+            onChange={(e) => setDraft(prev => ({ ...prev, scriptUrl: e.target.value }))}
+            required
+          />
+          <InputGroup
+            label="試算表連結"
+            type="url"
+            placeholder="https://docs.google.com/spreadsheets/d/..."
+            value={draft.sheetUrl}
+            onChange={(e) => setDraft(prev => ({ ...prev, sheetUrl: e.target.value }))}
+          />
+
+          <div className="flex justify-between items-center mb-2 mt-2">
+            <span className="text-sm font-medium text-medical-600">其他上傳網址</span>
+            <button
+              onClick={addEndpoint}
+              className="text-xs font-bold text-medical-600 border border-medical-100 px-2 py-1 rounded-lg hover:bg-medical-50 transition-colors"
+            >
+              <i className="fas fa-plus mr-1"></i> 新增
+            </button>
+          </div>
+          {draft.additionalEndpoints.length === 0 && (
+            <p className="text-xs text-slate-400 mb-2">未設定，資料只會送到上方的上傳網址。</p>
+          )}
+          <div className="space-y-3">
+            {draft.additionalEndpoints.map((endpoint, index) => (
+              <div key={index} className="bg-medical-50 p-3 rounded-lg border border-medical-100">
+                <div className="flex gap-2 mb-2">
+                  <input
+                    placeholder="名稱 (例如：大隊備份)"
+                    value={endpoint.name}
+                    onChange={(e) => updateEndpoint(index, 'name', e.target.value)}
+                    className="flex-1 min-w-0 text-xs p-2 border border-medical-100 rounded bg-white focus:ring-1 focus:ring-medical-500 outline-none"
+                  />
+                  <button
+                    onClick={() => removeEndpoint(index)}
+                    className="px-3 rounded border border-red-200 text-red-600 bg-white text-xs hover:bg-red-50 transition-colors"
+                  >
+                    <i className="fas fa-trash"></i>
+                  </button>
+                </div>
+                <input
+                  type="url"
+                  placeholder="https://script.google.com/macros/s/.../exec"
+                  value={endpoint.url}
+                  onChange={(e) => updateEndpoint(index, 'url', e.target.value)}
+                  className="w-full text-xs p-2 border border-medical-100 rounded bg-white focus:ring-1 focus:ring-medical-500 outline-none font-mono"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-6 mb-2">
+            <span className="text-sm font-medium text-medical-600">品管目標</span>
+            <p className="text-xs text-slate-400 mt-1">秒數為「不超過」，CCF 為「不低於」。達標值留白則不評分；警示值為待加強的界線，留白則未達標即不合格。</p>
+          </div>
+          <div className="bg-medical-50 rounded-lg border border-medical-100 p-3 space-y-2">
+            <div className="grid grid-cols-[1fr_4.5rem_4.5rem] gap-2 text-[10px] text-slate-400">
+              <span></span><span className="text-center">達標</span><span className="text-center">警示</span>
+            </div>
+            {(Object.keys(THRESHOLD_METRICS) as ThresholdKey[]).map((key) => (
+              <div key={key} className="grid grid-cols-[1fr_4.5rem_4.5rem] gap-2 items-center">
+                <span className="text-xs text-slate-600">
+                  {THRESHOLD_METRICS[key].label}
+                  <span className="text-slate-400 ml-1">({THRESHOLD_METRICS[key].direction === 'max' ? '≤' : '≥'} {THRESHOLD_METRICS[key].unit})</span>
+                </span>
+                {(['pass', 'warn'] as const).map((field) => (
+                  <input
+                    key={field}
+                    type="number"
+                    min={0}
+                    value={draft.thresholds[key][field] ?? ''}
+                    onChange={(e) => updateThreshold(key, field, e.target.value)}
+                    className="w-full text-xs p-1.5 border border-medical-100 rounded bg-white text-center focus:ring-1 focus:ring-medical-500 outline-none"
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2 mt-6">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1 py-2 rounded-lg text-xs font-bold border bg-white text-medical-600 border-medical-100 hover:bg-medical-50 transition-colors"
+            >
+              <i className="fas fa-file-import mr-1"></i> 匯入設定檔
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <button
+              onClick={handleRestoreDefaults}
+              className="flex-1 py-2 rounded-lg text-xs font-bold border bg-white text-slate-500 border-slate-200 hover:bg-slate-50 transition-colors"
+            >
+              <i className="fas fa-undo mr-1"></i> 恢復預設
+            </button>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="bg-white border-t border-slate-100 p-4 flex gap-3 shrink-0 z-10">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-[2] py-3 rounded-xl font-bold shadow-lg transition-all bg-accent-500 text-medical-900 hover:bg-accent-600 active:scale-95"
+          >
+            <i className="fas fa-save mr-2"></i> 儲存設定
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
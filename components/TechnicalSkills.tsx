@@ -2,6 +2,7 @@
 import React from 'react';
 import { TechnicalInfo, BasicInfo } from '../types';
 import { InputGroup } from './InputGroup';
+import { fieldElementId } from '../services/validationRules';
 import {
   PULSE_CHECK_OPTIONS,
   RHYTHM_OPTIONS,
@@ -19,6 +20,8 @@ interface Props {
   crewMembers: string[];
 }
 
+const idOf = (field: keyof TechnicalInfo) => fieldElementId({ tab: 'technicalInfo', field });
+
 export const TechnicalSkills: React.FC<Props> = ({ info, basicInfo, onChange, onBasicChange, crewMembers }) => {
   
   const renderStyledSelect = (
@@ -37,6 +40,7 @@ export const TechnicalSkills: React.FC<Props> = ({ info, basicInfo, onChange, on
           {label} <span className="text-red-500">*</span>
         </label>
         <select
+          id={idOf(field)}
           value={value}
           onChange={(e) => onChange(field, e.target.value)}
           className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 transition-colors
@@ -69,6 +73,7 @@ export const TechnicalSkills: React.FC<Props> = ({ info, basicInfo, onChange, on
                 label="AED 初始心律"
                 as="select"
                 options={RHYTHM_OPTIONS}
+                id={idOf('initialRhythm')}
                 value={info.initialRhythm}
                 onChange={(e) => onChange('initialRhythm', e.target.value)}
                 required
@@ -77,6 +82,7 @@ export const TechnicalSkills: React.FC<Props> = ({ info, basicInfo, onChange, on
                 label="AED初始心律首次電擊之後的心律"
                 as="select"
                 options={POST_SHOCK_RHYTHM_OPTIONS}
+                id={idOf('postShockRhythm')}
                 value={info.postShockRhythm}
                 onChange={(e) => onChange('postShockRhythm', e.target.value)}
                 required
@@ -87,6 +93,7 @@ export const TechnicalSkills: React.FC<Props> = ({ info, basicInfo, onChange, on
                         插管嘗試次數 <span className="text-red-500">*</span>
                     </label>
                     <select
+                        id={idOf('endoAttempts')}
                         value={info.endoAttempts}
                         onChange={(e) => onChange('endoAttempts', parseInt(e.target.value))}
                         className="w-full px-3 py-2 border border-medical-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-medical-500 transition-colors bg-white text-medical-600"
@@ -103,6 +110,7 @@ export const TechnicalSkills: React.FC<Props> = ({ info, basicInfo, onChange, on
                     type="number"
                     min="0"
                     step="1"
+                    id={idOf('airwayInterruptionSeconds')}
                     value={info.airwayInterruptionSeconds}
                     onChange={(e) => onChange('airwayInterruptionSeconds', e.target.value)}
                     required
@@ -114,6 +122,7 @@ export const TechnicalSkills: React.FC<Props> = ({ info, basicInfo, onChange, on
                         ETCO2 有無放置
                     </label>
                     <select
+                        id={idOf('etco2Used')}
                         value={info.etco2Used}
                         onChange={(e) => onChange('etco2Used', e.target.value)}
                         className="w-full px-3 py-2 border border-medical-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-medical-500 transition-colors bg-white text-medical-600"
@@ -127,6 +136,7 @@ export const TechnicalSkills: React.FC<Props> = ({ info, basicInfo, onChange, on
                 <InputGroup
                 label="ETCO2 數值 (mmHg)"
                 type="number"
+                id={idOf('etco2Value')}
                 value={info.etco2Value}
                 onChange={(e) => onChange('etco2Value', e.target.value)}
                 disabled={info.etco2Used !== 'Yes'}
@@ -135,6 +145,7 @@ export const TechnicalSkills: React.FC<Props> = ({ info, basicInfo, onChange, on
                 label="到院前啟動ECMO"
                 as="select"
                 options={PREHOSPITAL_ECMO_OPTIONS}
+                id={idOf('prehospitalEcmo')}
                 value={info.prehospitalEcmo}
                 onChange={(e) => onChange('prehospitalEcmo', e.target.value)}
                 />
@@ -150,6 +161,7 @@ export const TechnicalSkills: React.FC<Props> = ({ info, basicInfo, onChange, on
                 label="靜脈注射者" 
                 as="select" 
                 options={crewMembers}
+                id={idOf('ivOperator')}
                 value={info.ivOperator} 
                 onChange={(e) => onChange('ivOperator', e.target.value)} 
             />
@@ -157,6 +169,7 @@ export const TechnicalSkills: React.FC<Props> = ({ info, basicInfo, onChange, on
                 label="IO 執行者" 
                 as="select" 
                 options={crewMembers}
+                id={idOf('ioOperator')}
                 value={info.ioOperator} 
                 onChange={(e) => onChange('ioOperator', e.target.value)} 
             />
@@ -164,6 +177,7 @@ export const TechnicalSkills: React.FC<Props> = ({ info, basicInfo, onChange, on
                 label="Endo 插管者" 
                 as="select" 
                 options={crewMembers}
+                id={idOf('endoOperator')}
                 value={info.endoOperator} 
                 onChange={(e) => onChange('endoOperator', e.target.value)} 
             />
@@ -171,6 +185,7 @@ export const TechnicalSkills: React.FC<Props> = ({ info, basicInfo, onChange, on
                 label="Leader" 
                 as="select" 
                 options={crewMembers}
+                id={idOf('teamLeader')}
                 value={info.teamLeader} 
                 onChange={(e) => onChange('teamLeader', e.target.value)} 
             />
@@ -1,16 +1,20 @@
 import React from 'react';
-import { PersonnelCalibration } from '../types';
-import { getOffsetMs } from '../services/timeUtils';
+import { PersonnelCalibration, TimeCalibration as CalibrationPair } from '../types';
+import { fitClockModel, getOffsetMs, getPairResiduals } from '../services/timeUtils';
 import { DateTimeInput } from './DateTimeInput';
 
 interface Props {
   calibration: PersonnelCalibration;
-  onChange: (key: keyof PersonnelCalibration, field: 'keyTime' | 'aedTime', value: string) => void;
+  onChange: (key: keyof PersonnelCalibration, pairs: CalibrationPair[]) => void;
   defaultDate?: string;
+  timeZone: string;
 }
 
-export const TimeCalibration: React.FC<Props> = ({ calibration, onChange, defaultDate }) => {
-  
+// Residuals above this many seconds suggest a mistyped pair
+const RESIDUAL_WARN_SECONDS = 2;
+
+export const TimeCalibration: React.FC<Props> = ({ calibration, onChange, defaultDate, timeZone }) => {
+
   const getStyle = (val: string) => {
     // Note: removed w-full here as DateTimeInput handles width via flex
     return `text-xs p-2 border border-medical-100 rounded focus:ring-2 focus:ring-medical-500 outline-none transition-colors
@@ -18,43 +22,89 @@ export const TimeCalibration: React.FC<Props> = ({ calibration, onChange, defaul
   };
 
   const renderRow = (label: string, emtKey: keyof PersonnelCalibration) => {
-    const data = calibration[emtKey];
-    const offset = getOffsetMs(data.keyTime, data.aedTime);
-    const offsetSeconds = offset / 1000;
-    
+    const pairs = calibration[emtKey];
+    const model = fitClockModel(pairs, timeZone);
+    const residuals = getPairResiduals(pairs, timeZone);
+    const hasDrift = model !== null && model.pairCount >= 2;
+
+    const updatePair = (index: number, field: keyof CalibrationPair, value: string) =>
+      onChange(emtKey, pairs.map((pair, i) => (i === index ? { ...pair, [field]: value } : pair)));
+
     return (
       <div className="bg-white p-4 rounded-lg shadow-sm border border-medical-100 mb-4">
         <h3 className="font-bold text-lg text-medical-600 mb-3 border-b border-medical-100 pb-2">{label}</h3>
-        <div className="grid grid-cols-1 gap-3">
-          <div>
-            <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1">
-              關鍵時間點 (密錄器)
-            </label>
-            <DateTimeInput
-              value={data.keyTime}
-              onChange={(val) => onChange(emtKey, 'keyTime', val)}
-              className={getStyle(data.keyTime)}
-              defaultDate={defaultDate}
-            />
-          </div>
-          <div>
-            <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1">
-              AED 顯示時間
-            </label>
-            <DateTimeInput
-              value={data.aedTime}
-              onChange={(val) => onChange(emtKey, 'aedTime', val)}
-              className={getStyle(data.aedTime)}
-              defaultDate={defaultDate}
-            />
+        {pairs.map((pair, index) => {
+          const offsetSeconds = getOffsetMs(pair.keyTime, pair.aedTime, timeZone) / 1000;
+          const residual = residuals[index];
+          return (
+            <div key={index} className={index > 0 ? 'mt-4 pt-3 border-t border-dashed border-medical-100' : ''}>
+              {pairs.length > 1 && (
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-xs font-bold text-medical-600">校正點 {index + 1}</span>
+                  <button
+                    onClick={() => onChange(emtKey, pairs.filter((_, i) => i !== index))}
+                    className="text-xs text-red-500 hover:text-red-600"
+                  >
+                    <i className="fas fa-trash mr-1"></i>移除
+                  </button>
+                </div>
+              )}
+              <div className="grid grid-cols-1 gap-3">
+                <div>
+                  <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1">
+                    關鍵時間點 (密錄器)
+                  </label>
+                  <DateTimeInput
+                    value={pair.keyTime}
+                    onChange={(val) => updatePair(index, 'keyTime', val)}
+                    className={getStyle(pair.keyTime)}
+                    defaultDate={defaultDate}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1">
+                    AED 顯示時間
+                  </label>
+                  <DateTimeInput
+                    value={pair.aedTime}
+                    onChange={(val) => updatePair(index, 'aedTime', val)}
+                    className={getStyle(pair.aedTime)}
+                    defaultDate={defaultDate}
+                  />
+                </div>
+              </div>
+              <div className="mt-3 flex justify-between items-center bg-medical-50 p-2 rounded">
+                <span className="text-sm text-slate-600">時間差 (Key - AED)</span>
+                <span className={`font-mono font-bold ${offsetSeconds === 0 ? 'text-slate-400' : 'text-medical-600'}`}>
+                   {offsetSeconds > 0 ? '+' : ''}{offsetSeconds} 秒
+                </span>
+              </div>
+              {/* With a single pair the model passes through it exactly, so there is nothing to show */}
+              {hasDrift && residual !== null && (
+                <div className="mt-1 flex justify-between items-center px-2 text-xs">
+                  <span className="text-slate-500">殘差 (與校正模型相差)</span>
+                  <span className={`font-mono ${Math.abs(residual) > RESIDUAL_WARN_SECONDS ? 'text-red-500 font-bold' : 'text-slate-500'}`}>
+                    {residual > 0 ? '+' : ''}{residual.toFixed(1)} 秒
+                  </span>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {hasDrift && (
+          <div className="mt-3 flex justify-between items-center bg-accent-50 p-2 rounded border border-accent-200 text-sm">
+            <span className="text-slate-600">時鐘漂移 (每小時)</span>
+            <span className="font-mono font-bold text-medical-600">
+              {model.drift > 0 ? '+' : ''}{(model.drift * 3600).toFixed(1)} 秒
+            </span>
           </div>
-        </div>
-        <div className="mt-3 flex justify-between items-center bg-medical-50 p-2 rounded">
-          <span className="text-sm text-slate-600">時間差 (Key - AED)</span>
-          <span className={`font-mono font-bold ${offsetSeconds === 0 ? 'text-slate-400' : 'text-medical-600'}`}>
-             {offsetSeconds > 0 ? '+' : ''}{offsetSeconds} 秒
-          </span>
-        </div>
+        )}
+        <button
+          onClick={() => onChange(emtKey, [...pairs, { keyTime: '', aedTime: '' }])}
+          className="mt-3 w-full py-2 rounded-lg text-xs font-bold border border-dashed border-medical-300 text-medical-600 hover:bg-medical-50 transition-colors"
+        >
+          <i className="fas fa-plus mr-1"></i> 新增校正點 (長時間急救可校正時鐘漂移)
+        </button>
       </div>
     );
   };
@@ -63,7 +113,7 @@ export const TimeCalibration: React.FC<Props> = ({ calibration, onChange, defaul
     <div className="space-y-2 animate-fadeIn">
       <div className="bg-accent-50 p-4 rounded-lg mb-4 text-sm text-medical-600 border border-accent-200">
         <i className="fas fa-info-circle mr-2"></i>
-        請輸入各人員密錄器的「關鍵時間點」與對應的「AED時間」以進行校正。填寫任一欄位會自動帶入案件日期。
+        請輸入各人員密錄器的「關鍵時間點」與對應的「AED時間」以進行校正。填寫任一欄位會自動帶入案件日期。急救時間較長時，可在開始與結束附近各取一個校正點以修正時鐘漂移。
       </div>
       {renderRow('EMT 1 人員', 'emt1')}
       {renderRow('EMT 2 人員', 'emt2')}
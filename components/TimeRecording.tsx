@@ -1,16 +1,27 @@
 
-import React, { useMemo } from 'react';
-import { AppState, TimeRecord } from '../types';
-import { calculateCorrectedAedTime, formatTimeDisplay } from '../services/timeUtils';
-import { REQUIRED_TIME_FIELDS, TIME_FIELD_LABELS } from '../constants';
+import React, { useMemo, useRef } from 'react';
+import { AppState, EmtKey, EmtTimeField, TimeRecord, TimeSource } from '../types';
+import { calculateCorrectedAedTime, formatTimeDisplay, correctToAed, getEmtSpreadSeconds, isCalibrated, parseCaseTime } from '../services/timeUtils';
+import { getCorrectedTimes } from '../services/metrics';
+import { RuleSeverity, checkTimeEntry, fieldElementId, toTimeValues, worstSeverity } from '../services/validationRules';
+import { REQUIRED_TIME_FIELDS, SOURCE_SPREAD_WARN_SECONDS, TIME_FIELD_LABELS, TIME_SOURCE_LABELS } from '../constants';
 import { DateTimeInput } from './DateTimeInput';
 
 interface Props {
   data: AppState;
   onChange: (category: keyof TimeRecord, subField: string | null, value: string) => void;
+  onSourceChange: (field: EmtTimeField, source: TimeSource) => void;
+  onImportAedLog: (file: File) => void;
 }
 
-export const TimeRecording: React.FC<Props> = ({ data, onChange }) => {
+export const TimeRecording: React.FC<Props> = ({ data, onChange, onSourceChange, onImportAedLog }) => {
+  const aedLogInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAedLogFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImportAedLog(file);
+  };
   
   const handleTimeChange = (
     category: keyof TimeRecord,
@@ -27,93 +38,52 @@ export const TimeRecording: React.FC<Props> = ({ data, onChange }) => {
 
   const isEmtEnabled = (emt: string) => {
     if (emt === 'emt1') return true; 
-    const cal = data.calibration[emt as 'emt1'|'emt2'|'emt3'];
-    return cal && cal.keyTime && cal.keyTime.length > 0;
+    const pairs = data.calibration[emt as EmtKey];
+    return pairs && pairs.some(pair => pair.keyTime && pair.keyTime.length > 0);
   };
 
-  const correctedTimes = useMemo(() => {
-    const times: Record<string, Date | null> = {};
-    (Object.keys(data.timeRecords) as Array<keyof TimeRecord>).forEach((key) => {
-        times[key] = calculateCorrectedAedTime(key, data.timeRecords[key], data.calibration);
-    });
-    return times;
-  }, [data.timeRecords, data.calibration]);
+  const timeValues = useMemo(() => toTimeValues(getCorrectedTimes(data)), [data]);
 
-  const getValidationError = (
+  // Severity of the rules an entry breaks, read on its own rather than merged with the other EMTs
+  const getEntrySeverity = (
     fieldKey: keyof TimeRecord, 
     specificValue: string, 
     subField: string | null 
-  ): boolean => {
-    if (!specificValue || specificValue === 'N/A') return false;
+  ): RuleSeverity | null => {
+    if (!specificValue || specificValue === 'N/A') return null;
 
     let currentCorrected: Date | null = null;
     
     if (subField === null) {
-        currentCorrected = new Date(specificValue);
+        currentCorrected = parseCaseTime(specificValue, data.timeZone);
     } else {
-        const offset = data.calibration[subField as 'emt1'|'emt2'|'emt3'];
-        if (offset && offset.keyTime && offset.aedTime) {
-            const diff = new Date(offset.keyTime).getTime() - new Date(offset.aedTime).getTime();
-            currentCorrected = new Date(new Date(specificValue).getTime() - diff);
+        const emt = subField as EmtKey;
+        const entered = parseCaseTime(specificValue, data.timeZone);
+        if (entered && isCalibrated(data.calibration, emt)) {
+            currentCorrected = correctToAed(entered, data.calibration[emt], data.timeZone);
         } else {
-            if (subField === 'emt1' && !offset.keyTime) {
-                 return false;
-            }
-             return false;
+             return null;
         }
     }
 
-    if (!currentCorrected || isNaN(currentCorrected.getTime())) return false;
-
-    const t = correctedTimes;
-    const isAfter = (predecessorKey: keyof TimeRecord) => {
-        const pred = t[predecessorKey];
-        if (!pred) return true; 
-        return currentCorrected!.getTime() > pred.getTime();
-    };
-
-    const isBefore = (successorKey: keyof TimeRecord) => {
-        const succ = t[successorKey];
-        if (!succ) return true;
-        return currentCorrected!.getTime() < succ.getTime();
-    };
-    
-    const isEqual = (targetKey: keyof TimeRecord) => {
-        const target = t[targetKey];
-        if (!target) return true;
-        return Math.abs(currentCorrected!.getTime() - target.getTime()) < 1000;
-    };
-
-    switch (fieldKey) {
-        case 'contact': return !isAfter('found');
-        case 'ohcaJudgment': return !isAfter('contact');
-        case 'cprStart': return !isAfter('ohcaJudgment');
-        case 'powerOn': return !isAfter('ohcaJudgment');
-        case 'padsOn': return !isAfter('powerOn');
-        case 'firstVentilation': return !isAfter('ohcaJudgment');
-        case 'mcprSetup': return !isAfter('cprStart');
-        case 'firstMed': return !isAfter('ohcaJudgment');
-        case 'airway': return !isAfter('ohcaJudgment');
-        case 'aedOff': 
-            if (t.mcprSetup) return !isAfter('mcprSetup');
-            return !isAfter('padsOn');
-        case 'rosc': return !isEqual('aedOff');
-        case 'firstShock': 
-            return !(isAfter('padsOn') && isBefore('aedOff'));
-        default: return false;
-    }
+    if (!currentCorrected || isNaN(currentCorrected.getTime())) return null;
+    return worstSeverity(checkTimeEntry(data, fieldKey, currentCorrected, timeValues));
   };
 
-  const getStyle = (val: string, disabled: boolean, isError: boolean) => {
+  const getStyle = (val: string, disabled: boolean, severity: RuleSeverity | null) => {
     if (disabled) {
         return `w-full text-xs p-1 h-10 border rounded outline-none text-center transition-colors bg-slate-200 border-slate-200 text-slate-400 cursor-not-allowed`;
     }
     const hasValue = val && val.length > 0;
     
-    if (isError) {
+    if (severity === 'error') {
         return `w-full text-xs p-1 h-10 border rounded outline-none text-center transition-colors bg-pink-100 border-red-300 text-red-600 font-bold focus:ring-1 focus:ring-red-200`;
     }
 
+    if (severity === 'warning') {
+        return `w-full text-xs p-1 h-10 border rounded outline-none text-center transition-colors bg-accent-50 border-accent-500 text-medical-600 font-bold focus:ring-1 focus:ring-accent-200`;
+    }
+
     if (val === 'N/A') {
         return `w-full text-xs p-1 h-10 border rounded outline-none text-center transition-colors bg-slate-100 text-slate-500 font-mono tracking-wider`;
     }
@@ -128,10 +98,12 @@ export const TimeRecording: React.FC<Props> = ({ data, onChange }) => {
     allowNA: boolean = false
   ) => {
     const recordData = data.timeRecords[fieldKey];
-    const correctedTime = calculateCorrectedAedTime(fieldKey, recordData, data.calibration);
+    const correctedTime = calculateCorrectedAedTime(fieldKey, recordData, data.calibration, data.timeZone, data.timeSources);
     const isRequired = (REQUIRED_TIME_FIELDS as string[]).includes(fieldKey);
     const label = TIME_FIELD_LABELS[fieldKey] || fieldKey;
     const isNoCalibration = ['powerOn', 'aedOff', 'firstShock'].includes(fieldKey);
+    const source = isDirectAed ? null : data.timeSources[fieldKey as EmtTimeField];
+    const spread = isDirectAed ? null : getEmtSpreadSeconds(data.timeRecords[fieldKey as EmtTimeField], data.calibration, data.timeZone);
     
     return (
       <div className="bg-white rounded-lg shadow-sm border border-medical-100 overflow-hidden mb-4">
@@ -144,21 +116,42 @@ export const TimeRecording: React.FC<Props> = ({ data, onChange }) => {
             <div className="flex items-center space-x-2">
                 <span className="text-[10px] text-slate-500 uppercase">校正後 AED</span>
                 <span className="bg-medical-600 text-white text-xs font-mono py-1 px-2 rounded min-w-[60px] text-center">
-                {correctedTime ? formatTimeDisplay(correctedTime.toISOString()) : '--:--:--'}
+                {correctedTime ? formatTimeDisplay(correctedTime.toISOString(), data.timeZone) : '--:--:--'}
                 </span>
             </div>
           )}
         </div>
 
+        {source && (
+          <div className="px-3 pt-3 flex items-center gap-2">
+            <label className="text-[10px] text-slate-500 shrink-0">時間來源</label>
+            <select
+              value={source}
+              onChange={(e) => onSourceChange(fieldKey as EmtTimeField, e.target.value as TimeSource)}
+              className="flex-1 text-xs p-1 border border-medical-100 rounded bg-white outline-none focus:ring-1 focus:ring-medical-500"
+            >
+              {Object.entries(TIME_SOURCE_LABELS).map(([value, text]) => (
+                <option key={value} value={value}>{text}</option>
+              ))}
+            </select>
+            {spread !== null && (
+              <span className={`text-[10px] font-mono shrink-0 ${spread > SOURCE_SPREAD_WARN_SECONDS ? 'text-red-500 font-bold' : 'text-slate-400'}`}>
+                EMT 差 {spread} 秒
+              </span>
+            )}
+          </div>
+        )}
+
         <div className="p-3">
           {isDirectAed ? (
              <DateTimeInput
+               id={fieldElementId({ tab: 'timeRecords', field: fieldKey })}
                value={recordData as string}
                onChange={(val) => handleTimeChange(fieldKey, null, val)}
                className={getStyle(
                    recordData as string, 
                    false, 
-                   getValidationError(fieldKey, recordData as string, null)
+                   getEntrySeverity(fieldKey, recordData as string, null)
                )}
                defaultDate={data.basicInfo.date}
              />
@@ -167,7 +160,7 @@ export const TimeRecording: React.FC<Props> = ({ data, onChange }) => {
               {(['emt1', 'emt2', 'emt3'] as const).map((emt) => {
                 const disabled = !isEmtEnabled(emt);
                 const val = (recordData as any)[emt];
-                const isError = !disabled && getValidationError(fieldKey, val, emt);
+                const severity = disabled ? null : getEntrySeverity(fieldKey, val, emt);
                 const isNA = val === 'N/A';
                 
                 return (
@@ -182,10 +175,11 @@ export const TimeRecording: React.FC<Props> = ({ data, onChange }) => {
                            </div>
                         ) : (
                             <DateTimeInput
+                            id={fieldElementId({ tab: 'timeRecords', field: fieldKey, emt })}
                             value={val}
                             onChange={(newVal) => handleTimeChange(fieldKey, emt, newVal)}
                             disabled={disabled}
-                            className={getStyle(val, disabled, isError)}
+                            className={getStyle(val, disabled, severity)}
                             defaultDate={data.basicInfo.date}
                             />
                         )}
@@ -217,8 +211,15 @@ export const TimeRecording: React.FC<Props> = ({ data, onChange }) => {
     <div className="space-y-2 animate-fadeIn pb-24">
       <div className="bg-accent-50 p-3 rounded-lg border border-accent-200 text-medical-600 text-xs mb-4">
         <i className="fas fa-exclamation-triangle mr-1"></i>
-        標示 * 為必填。輸入時間將自動帶入案件日期。時間順序錯誤將顯示紅字。
+        標示 * 為必填。輸入時間將自動帶入案件日期。時間順序錯誤將顯示紅字，需再確認的時間 (如 ROSC 與 AED 關機不一致) 顯示黃底。
       </div>
+      <button
+        onClick={() => aedLogInputRef.current?.click()}
+        className="w-full mb-4 py-2 rounded-lg text-sm font-bold border border-medical-100 bg-white text-medical-600 hover:bg-medical-50 transition-colors"
+      >
+        <i className="fas fa-heartbeat mr-1"></i> 匯入 AED 事件紀錄 (帶入 Power ON、貼片、電擊、關機時間)
+      </button>
+      <input ref={aedLogInputRef} type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden" onChange={handleAedLogFile} />
       {renderRow('found')}
       {renderRow('contact')}
       {renderRow('ohcaJudgment')}
@@ -109,6 +109,26 @@ export const TIME_FIELD_LABELS: Record<string, string> = {
   firstShock: '首次電擊'
 };
 
+// Case time zones (IANA); all entered times of a case are read in its zone
+export const TIME_ZONE_OPTIONS = [
+  "Asia/Taipei",
+  "Asia/Tokyo",
+  "Asia/Hong_Kong",
+  "Asia/Singapore",
+  "UTC"
+];
+
+export const TIME_SOURCE_LABELS: Record<string, string> = {
+  auto: '自動 (EMT1→2→3)',
+  emt1: 'EMT1',
+  emt2: 'EMT2',
+  emt3: 'EMT3',
+  average: '平均 (已校正)'
+};
+
+// EMT entries of one field disagreeing by more than this after calibration are flagged in the preview
+export const SOURCE_SPREAD_WARN_SECONDS = 30;
+
 export const REQUIRED_TIME_FIELDS = [
   'found', 'contact', 'ohcaJudgment', 'cprStart', 'powerOn',
   'padsOn', 'firstVentilation', 'mcprSetup', 'firstMed', 'aedOff'
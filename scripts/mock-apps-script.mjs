@@ -0,0 +1,99 @@
+// Local stand-in for the Apps Script web app in setup.html, for testing submissions and receipts.
+//
+//   npm run mock:submit                 accept and store rows in memory
+//   npm run mock:submit -- --reject     answer every submission with { ok: false }
+//   npm run mock:submit -- --legacy     answer like a script deployed before receipts
+//
+// Then set the upload URL in the WebApp to http://localhost:8787/exec (PORT changes the port).
+// GET /rows lists what was received, with the detailed interruptions of each row.
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+const SHEET_NAME = 'OHCA Ver6';
+const reject = process.argv.includes('--reject');
+const legacy = process.argv.includes('--legacy');
+
+const rows = [];
+const interruptions = [];
+const receipts = new Map();
+
+// Same as canonicalJson in services/hashUtils.ts and the Apps Script
+const canonicalJson = (value) => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const sha256Hex = (text) => createHash('sha256').update(text, 'utf8').digest('hex');
+
+// Apps Script responses are readable cross-origin, but it never answers a CORS preflight
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+};
+
+const handlePost = (text) => {
+  let request;
+  try {
+    request = JSON.parse(text || '{}');
+  } catch (e) {
+    return { ok: false, error: '資料不是有效的 JSON' };
+  }
+  if (reject) return { ok: false, error: '模擬伺服器拒絕 (--reject)' };
+
+  const payload = request.protocol ? request.payload : request;
+  const record = payload && payload.orderedRecord;
+  if (!record) return { ok: false, error: '缺少 orderedRecord 欄位' };
+
+  const submissionId = String(request.submissionId || '');
+  if (submissionId && receipts.has(submissionId)) {
+    return { ok: true, sheet: SHEET_NAME, receipt: receipts.get(submissionId) };
+  }
+
+  rows.push(record);
+  if (payload.detailedInterruptions) {
+    interruptions.push({ ...payload.detailedInterruptions, rowId: rows.length + 1, submissionId, Reviewer: record['Reviewer'] });
+  }
+  if (legacy) return { ok: true, sheet: SHEET_NAME };
+
+  const receipt = {
+    submissionId,
+    rowId: rows.length + 1, // Row 1 holds the headers
+    receivedAt: new Date().toISOString(),
+    payloadHash: sha256Hex(canonicalJson(payload)),
+  };
+  if (submissionId) receipts.set(submissionId, receipt);
+  return { ok: true, sheet: SHEET_NAME, receipt };
+};
+
+const server = createServer((req, res) => {
+  if (req.method === 'GET' && req.url === '/rows') {
+    send(res, 200, { rows, interruptions, receipts: [...receipts.values()] });
+    return;
+  }
+  if (req.method !== 'POST') {
+    send(res, 405, { ok: false, error: `不支援 ${req.method}` });
+    return;
+  }
+
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = handlePost(Buffer.concat(chunks).toString('utf8'));
+    console.log(new Date().toISOString(), body.ok ? `row ${body.receipt?.rowId ?? rows.length + 1}` : body.error);
+    send(res, 200, body);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Apps Script listening on http://localhost:${PORT}/exec${reject ? ' (rejecting)' : ''}${legacy ? ' (legacy)' : ''}`);
+});
@@ -0,0 +1,192 @@
+import { AppState } from '../types';
+import { parseCsv } from './recordImport';
+
+// Import of AED event logs exported from the vendors' review software. Each vendor format is an
+// adapter; parseAedLog picks the first adapter whose detect() accepts the text unless one is chosen.
+
+export type AedEventType = 'powerOn' | 'padsConnected' | 'analysis' | 'shock' | 'powerOff' | 'other';
+
+export interface AedEvent {
+  time: string; // AED clock, `YYYY-MM-DDTHH:mm:ss` like DateTimeInput
+  type: AedEventType;
+  label: string; // Event text as written in the log
+  line: number; // 1-based line in the file
+}
+
+export interface AedLogContext {
+  caseDate: string; // YYYY-MM-DD, for logs that only carry times of day
+}
+
+export interface AedLogAdapter {
+  id: string;
+  name: string;
+  detect: (text: string) => boolean;
+  parse: (text: string, context: AedLogContext) => AedLogParseResult;
+}
+
+export interface AedLogParseResult {
+  events: AedEvent[];
+  problems: string[]; // Lines that were skipped and why
+}
+
+// Direct AED time fields a log can fill
+export const AED_LOG_FIELDS = ['powerOn', 'padsOn', 'firstShock', 'aedOff'] as const;
+export type AedLogField = typeof AED_LOG_FIELDS[number];
+
+export interface AedFieldMapping {
+  field: AedLogField;
+  event: AedEvent | null; // null when the log has no matching event
+}
+
+// Checked in order: "shock advised" and "no shock advised" are analysis results, not shocks
+const EVENT_PATTERNS: [AedEventType, RegExp][] = [
+  ['analysis', /no\s*shock|shock\s*(not\s*)?advised|建議電擊|無需電擊/i],
+  ['powerOn', /power(ed)?\s*on|開機/i],
+  ['powerOff', /power(ed)?\s*off|shut\s*down|關機/i],
+  ['padsConnected', /(pads?|electrodes?)\s*(connected|attached|on)|貼片(連接|貼上|已連接)/i],
+  ['shock', /shock|defib|電擊/i],
+  ['analysis', /analy[sz]|分析/i],
+];
+
+export const classifyAedEvent = (label: string): AedEventType =>
+  EVENT_PATTERNS.find(([, pattern]) => pattern.test(label))?.[0] || 'other';
+
+const DATE_TIME = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})[ T]+(\d{1,2}):(\d{2}):(\d{2})/;
+const TIME_OF_DAY = /^(\d{1,2}):(\d{2}):(\d{2})/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Naive wall-clock arithmetic through UTC, so no time zone is involved
+const naiveFromMs = (ms: number) => new Date(ms).toISOString().slice(0, 19);
+const naiveToMs = (y: number, mo: number, d: number, h: number, mi: number, s: number) => Date.UTC(y, mo - 1, d, h, mi, s);
+
+// Reads timestamps in log order. Times of day take the case date and roll over to the
+// next day when they go backwards (a resuscitation crossing midnight). Shared by all adapters.
+export const createTimeReader = (context: AedLogContext) => {
+  let dayOffset = 0;
+  let lastMs: number | null = null;
+  const [year, month, day] = context.caseDate.split('-').map(Number);
+
+  return (value: string): string | null => {
+    const text = value.trim();
+    const full = text.match(DATE_TIME);
+    if (full) {
+      const ms = naiveToMs(+full[1], +full[2], +full[3], +full[4], +full[5], +full[6]);
+      lastMs = ms;
+      return naiveFromMs(ms);
+    }
+    const short = text.match(TIME_OF_DAY);
+    if (!short || !context.caseDate || +short[1] > 23) return null;
+    let ms = naiveToMs(year, month, day, +short[1], +short[2], +short[3]) + dayOffset;
+    if (lastMs !== null && ms < lastMs) {
+      dayOffset += DAY_MS;
+      ms += DAY_MS;
+    }
+    lastMs = ms;
+    return naiveFromMs(ms);
+  };
+};
+
+const TIME_HEADER = /^(time|timestamp|date\s*\/?\s*time|時間|時間戳記)$/i;
+const EVENT_HEADER = /^(event|events|description|事件|事件說明|說明)$/i;
+
+const findCsvColumns = (header: string[]) => ({
+  time: header.findIndex(cell => TIME_HEADER.test(cell.trim())),
+  event: header.findIndex(cell => EVENT_HEADER.test(cell.trim())),
+});
+
+// CSV with a header row naming a time column and an event column; other columns are ignored
+export const csvEventAdapter: AedLogAdapter = {
+  id: 'csv',
+  name: '事件 CSV (時間, 事件 欄位)',
+  detect: (text) => {
+    const [header] = parseCsv(text);
+    if (!header) return false;
+    const columns = findCsvColumns(header);
+    return columns.time >= 0 && columns.event >= 0;
+  },
+  parse: (text, context) => {
+    const [header, ...rows] = parseCsv(text);
+    const columns = findCsvColumns(header || []);
+    if (columns.time < 0 || columns.event < 0) throw new Error('找不到「時間」與「事件」欄位');
+
+    const readTime = createTimeReader(context);
+    const result: AedLogParseResult = { events: [], problems: [] };
+    rows.forEach((row, i) => {
+      const line = i + 2;
+      const label = (row[columns.event] || '').trim();
+      const time = readTime(row[columns.time] || '');
+      if (!time) result.problems.push(`第 ${line} 行：無法解析時間「${row[columns.time] || ''}」`);
+      else if (label) result.events.push({ time, type: classifyAedEvent(label), label, line });
+    });
+    return result;
+  },
+};
+
+// Plain text, one event per line starting with a timestamp: "2025-01-02 10:03:05  Shock delivered 200J"
+export const timestampedTextAdapter: AedLogAdapter = {
+  id: 'text',
+  name: '文字紀錄 (每行以時間開頭)',
+  detect: (text) => text.split(/\r?\n/).some(line => DATE_TIME.test(line.trim()) || TIME_OF_DAY.test(line.trim())),
+  parse: (text, context) => {
+    const readTime = createTimeReader(context);
+    const result: AedLogParseResult = { events: [], problems: [] };
+    text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((raw, i) => {
+      const line = i + 1;
+      const trimmed = raw.trim();
+      const stamp = trimmed.match(DATE_TIME) || trimmed.match(TIME_OF_DAY);
+      if (!stamp) return; // Headers, separators and notes
+      const time = readTime(stamp[0]);
+      const label = trimmed.slice(stamp[0].length).replace(/^[\s,;|\t-]+/, '');
+      if (!time) result.problems.push(`第 ${line} 行：無法解析時間「${stamp[0]}」`);
+      else if (label) result.events.push({ time, type: classifyAedEvent(label), label, line });
+    });
+    return result;
+  },
+};
+
+// Detection order: more specific formats first. Vendor adapters go here.
+export const AED_LOG_ADAPTERS: AedLogAdapter[] = [csvEventAdapter, timestampedTextAdapter];
+
+export interface AedLogImport extends AedLogParseResult {
+  adapter: AedLogAdapter;
+}
+
+export const parseAedLog = (text: string, context: AedLogContext, adapterId?: string): AedLogImport => {
+  const adapter = adapterId
+    ? AED_LOG_ADAPTERS.find(candidate => candidate.id === adapterId)
+    : AED_LOG_ADAPTERS.find(candidate => candidate.detect(text));
+  if (!adapter) throw new Error(adapterId ? `不支援的格式：${adapterId}` : '無法辨識 AED 事件紀錄的格式');
+
+  const result = adapter.parse(text, context);
+  if (result.events.length === 0) {
+    throw new Error(context.caseDate ? '紀錄中沒有可辨識的事件' : '紀錄中沒有可辨識的事件；紀錄只有時間時，請先填寫案件日期');
+  }
+  return { adapter, ...result };
+};
+
+// Which event fills each field: the first power on, pads and shock, and the last power off
+const FIELD_EVENTS: Record<AedLogField, { type: AedEventType; pick: 'first' | 'last' }> = {
+  powerOn: { type: 'powerOn', pick: 'first' },
+  padsOn: { type: 'padsConnected', pick: 'first' },
+  firstShock: { type: 'shock', pick: 'first' },
+  aedOff: { type: 'powerOff', pick: 'last' },
+};
+
+export const mapAedEvents = (events: AedEvent[]): AedFieldMapping[] => {
+  const sorted = [...events].sort((a, b) => a.time.localeCompare(b.time));
+  return AED_LOG_FIELDS.map((field) => {
+    const { type, pick } = FIELD_EVENTS[field];
+    const matches = sorted.filter(event => event.type === type);
+    return { field, event: (pick === 'first' ? matches[0] : matches[matches.length - 1]) || null };
+  });
+};
+
+export const applyAedTimes = (state: AppState, times: Partial<Record<AedLogField, string>>): AppState => ({
+  ...state,
+  timeRecords: { ...state.timeRecords, ...times },
+});
+
+export const formatLogTime = (time: string) => {
+  const [date, clock] = time.split('T');
+  return date && clock ? `${date} ${clock}` : time;
+};
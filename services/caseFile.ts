@@ -0,0 +1,101 @@
+import { AppState, INITIAL_STATE } from '../types';
+import { SCHEMA_VERSION, migrateState } from './migrations';
+import { downloadTextFile } from './recordExport';
+import { canonicalJson, sha256Hex } from './hashUtils';
+import { createInterruptionItem } from './interruptions';
+import { isValidTimeZone } from './timeUtils';
+
+// Full-fidelity case file (.ohca.json): the complete AppState including raw EMT times,
+// calibration pairs and every interruption slot, unlike the flattened CSV export.
+export const CASE_FILE_FORMAT = 'ohca-case';
+export const CASE_FILE_EXTENSION = '.ohca.json';
+
+export interface CaseFile {
+  format: typeof CASE_FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string; // ISO string
+  checksum: string; // SHA-256 (hex) of the canonical JSON of the state
+  state: AppState;
+}
+
+// INITIAL_STATE with one entry in each list whose items must be checked
+const SHAPE_TEMPLATE = {
+  ...INITIAL_STATE,
+  interruptionRecords: { beforePads: [createInterruptionItem()], beforeMcpr: [createInterruptionItem()] },
+};
+
+// Compare a value against the matching part of INITIAL_STATE and collect the paths that differ in type
+const checkShape = (value: unknown, template: unknown, path: string, problems: string[]) => {
+  if (Array.isArray(template)) {
+    if (!Array.isArray(value)) {
+      problems.push(`${path} 應為陣列`);
+      return;
+    }
+    // An empty template array (e.g. crewRoster.members) says nothing about its items
+    if (template.length > 0) value.forEach((item, i) => checkShape(item, template[0], `${path}[${i}]`, problems));
+    return;
+  }
+  if (template && typeof template === 'object') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      problems.push(`${path} 應為物件`);
+      return;
+    }
+    Object.keys(template).forEach(key => {
+      checkShape((value as Record<string, unknown>)[key], (template as Record<string, unknown>)[key], path ? `${path}.${key}` : key, problems);
+    });
+    return;
+  }
+  if (typeof value !== typeof template) {
+    problems.push(`${path} 應為${typeof template === 'number' ? '數字' : '文字'}`);
+  }
+};
+
+export const buildCaseFile = async (state: AppState): Promise<CaseFile> => ({
+  format: CASE_FILE_FORMAT,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  checksum: await sha256Hex(canonicalJson(state)),
+  state,
+});
+
+export const exportCaseFile = async (state: AppState) => {
+  const file = await buildCaseFile(state);
+  downloadTextFile(
+    JSON.stringify(file, null, 2),
+    `OHCA-${state.basicInfo.caseId || 'record'}${CASE_FILE_EXTENSION}`,
+    'application/json;charset=utf-8'
+  );
+};
+
+// Read a case file back, rejecting anything altered or structurally incomplete.
+// Files written by older app versions are upgraded through the migration chain.
+export const parseCaseFile = async (text: string): Promise<AppState> => {
+  let file: Partial<CaseFile>;
+  try {
+    file = JSON.parse(text);
+  } catch (e) {
+    throw new Error('檔案不是有效的 JSON');
+  }
+
+  if (!file || file.format !== CASE_FILE_FORMAT) throw new Error('檔案不是 OHCA 案件檔');
+  if (typeof file.schemaVersion !== 'number') throw new Error('案件檔缺少版本資訊');
+  if (file.schemaVersion > SCHEMA_VERSION) throw new Error('案件檔版本較新，請先更新系統');
+  if (!file.state || typeof file.state !== 'object') throw new Error('案件檔缺少案件資料');
+
+  if (file.checksum !== await sha256Hex(canonicalJson(file.state))) {
+    throw new Error('案件檔檢查碼不符，檔案可能已被修改或損毀');
+  }
+
+  const state = file.schemaVersion === SCHEMA_VERSION ? file.state : migrateState(file.state, file.schemaVersion);
+  const problems: string[] = [];
+  checkShape(state, SHAPE_TEMPLATE, '', problems);
+  if (typeof state.timeZone === 'string' && !isValidTimeZone(state.timeZone)) problems.push(`timeZone 不是有效的時區：${state.timeZone}`);
+  const timeBaseKind = state.interruptionTimeBase && state.interruptionTimeBase.kind;
+  if (typeof timeBaseKind === 'string' && !['video', 'aedClock'].includes(timeBaseKind)) {
+    problems.push(`interruptionTimeBase.kind 應為 video 或 aedClock：${timeBaseKind}`);
+  }
+  if (problems.length > 0) {
+    throw new Error(`案件檔結構錯誤：\n${problems.slice(0, 10).join('\n')}`);
+  }
+  return state;
+};
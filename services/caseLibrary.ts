@@ -0,0 +1,165 @@
+import { AppState, BasicInfo, CaseSummary, INITIAL_STATE, SubmissionReceipt } from '../types';
+import { SCHEMA_VERSION, migrateState } from './migrations';
+import { caseToday } from './timeUtils';
+import { StoredCase, getAllCases, getCase, getMeta, putCase, removeCase, setMeta, updateCase } from './storage';
+
+const CURRENT_CASE_KEY = 'currentCaseId';
+const LEGACY_IMPORTED_KEY = 'legacyImported';
+
+// localStorage layouts used before IndexedDB, with the schema version of their contents
+const LEGACY_LIBRARY_INDEX_KEY = 'ohca-case-library-v1';
+const LEGACY_LIBRARY_CASE_PREFIX = 'ohca-case-v1:';
+const LEGACY_LIBRARY_CURRENT_KEY = 'ohca-current-case-v1';
+const LEGACY_STATE_KEYS: Array<[string, number]> = [
+  ['ohca-app-state-v6', 6],
+  ['ohca-app-state-v5', 5],
+  ['ohca-app-state-v4', 4],
+  ['ohca-app-state-v3', 3],
+];
+
+const createCaseKey = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Deep copy so that saved cases never share nested objects (interruption arrays etc.)
+const cloneState = (state: AppState): AppState => JSON.parse(JSON.stringify(state));
+
+export const createBlankState = (keep: Partial<BasicInfo> = {}): AppState => {
+  const state = cloneState(INITIAL_STATE);
+  state.basicInfo = { ...state.basicInfo, date: caseToday(), ...keep };
+  return state;
+};
+
+const summarize = (record: StoredCase): CaseSummary => ({
+  id: record.id,
+  caseId: record.state.basicInfo?.caseId || '',
+  date: record.state.basicInfo?.date || '',
+  unit: record.state.basicInfo?.unit || '',
+  archived: record.archived,
+  updatedAt: record.updatedAt,
+});
+
+const readState = (record: StoredCase): AppState | null => {
+  try {
+    return record.schemaVersion === SCHEMA_VERSION
+      ? record.state
+      : migrateState(record.state, record.schemaVersion);
+  } catch (e) {
+    console.error('Failed to load case', record.id, e);
+    return null;
+  }
+};
+
+// Most recently edited first
+export const listCases = async (): Promise<CaseSummary[]> =>
+  (await getAllCases()).map(summarize).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+export const loadCase = async (id: string): Promise<AppState | null> => {
+  const record = await getCase(id);
+  return record ? readState(record) : null;
+};
+
+export const saveCase = (id: string, state: AppState) =>
+  updateCase(id, existing => ({
+    id,
+    schemaVersion: SCHEMA_VERSION,
+    archived: existing ? existing.archived : false,
+    updatedAt: new Date().toISOString(),
+    state,
+    receipts: existing?.receipts || [],
+  }));
+
+export const createCase = async (state: AppState): Promise<string> => {
+  const id = createCaseKey();
+  await saveCase(id, state);
+  return id;
+};
+
+export const duplicateCase = async (id: string): Promise<string | null> => {
+  const state = await loadCase(id);
+  if (!state) return null;
+  return createCase(cloneState(state));
+};
+
+export const setCaseArchived = (id: string, archived: boolean) =>
+  updateCase(id, record => (record ? { ...record, archived } : null));
+
+// Receipts are kept with the case, not in AppState, so editing or duplicating a case never carries them along
+export const addCaseReceipt = (id: string, receipt: SubmissionReceipt) =>
+  updateCase(id, record => (record ? { ...record, receipts: [...(record.receipts || []), receipt] } : null));
+
+export const getCaseReceipts = async (id: string): Promise<SubmissionReceipt[]> =>
+  (await getCase(id))?.receipts || [];
+
+export const deleteCase = (id: string) => removeCase(id);
+
+export const setCurrentCaseId = (id: string) => setMeta(CURRENT_CASE_KEY, id);
+
+// Copy cases kept in localStorage by earlier versions (the single-slot state and
+// the first case library) into IndexedDB once, keeping their schema version so
+// they are upgraded by the migration chain when opened.
+const importLegacyStorage = async () => {
+  if (await getMeta<boolean>(LEGACY_IMPORTED_KEY)) return;
+
+  const now = new Date().toISOString();
+  const legacy: StoredCase[] = [];
+  const readJson = (key: string) => {
+    try {
+      const raw = localStorage.getItem(key);
+      return raw ? JSON.parse(raw) : null;
+    } catch (e) {
+      console.error('Failed to read', key, e);
+      return null;
+    }
+  };
+
+  const index: Array<{ id: string; archived: boolean; updatedAt: string }> = readJson(LEGACY_LIBRARY_INDEX_KEY) || [];
+  index.forEach((entry) => {
+    const state = readJson(`${LEGACY_LIBRARY_CASE_PREFIX}${entry.id}`);
+    if (state) legacy.push({ id: entry.id, schemaVersion: 6, archived: entry.archived, updatedAt: entry.updatedAt || now, state });
+  });
+
+  const slot = LEGACY_STATE_KEYS.find(([key]) => localStorage.getItem(key));
+  if (slot) {
+    const state = readJson(slot[0]);
+    if (state) legacy.push({ id: createCaseKey(), schemaVersion: slot[1], archived: false, updatedAt: now, state });
+  }
+
+  for (const record of legacy) {
+    await putCase(record);
+  }
+  const legacyCurrentId = localStorage.getItem(LEGACY_LIBRARY_CURRENT_KEY);
+  if (legacyCurrentId) await setCurrentCaseId(legacyCurrentId);
+  await setMeta(LEGACY_IMPORTED_KEY, true);
+
+  index.forEach(entry => localStorage.removeItem(`${LEGACY_LIBRARY_CASE_PREFIX}${entry.id}`));
+  [LEGACY_LIBRARY_INDEX_KEY, LEGACY_LIBRARY_CURRENT_KEY, ...LEGACY_STATE_KEYS.map(([key]) => key)]
+    .forEach(key => localStorage.removeItem(key));
+};
+
+// Resolve the case to open on startup: the last edited case, else the most recent active one, else a new one
+const resolveInitialCase = async (): Promise<{ id: string; state: AppState }> => {
+  await importLegacyStorage();
+
+  const currentId = await getMeta<string>(CURRENT_CASE_KEY);
+  const current = currentId ? await loadCase(currentId) : null;
+  if (currentId && current) return { id: currentId, state: current };
+
+  const latest = (await listCases()).find(entry => !entry.archived);
+  const latestState = latest ? await loadCase(latest.id) : null;
+  if (latest && latestState) {
+    await setCurrentCaseId(latest.id);
+    return { id: latest.id, state: latestState };
+  }
+
+  const state = createBlankState();
+  const id = await createCase(state);
+  await setCurrentCaseId(id);
+  return { id, state };
+};
+
+let initialCasePromise: Promise<{ id: string; state: AppState }> | null = null;
+
+// Shared so that effects running twice (React StrictMode) do not import or create cases twice
+export const openInitialCase = () => {
+  if (!initialCasePromise) initialCasePromise = resolveInitialCase();
+  return initialCasePromise;
+};
@@ -0,0 +1,168 @@
+import { AppState, MetricThresholds } from '../types';
+import { CaseMetrics, CorrectedTimes, computeCaseMetrics, formatMetric, getCorrectedTimes } from './metrics';
+import { summarizeInterruptionReasons } from './interruptions';
+import { buildTimeline, timelineToSvg } from './timeline';
+import { downloadTextFile, escapeHtml } from './recordExport';
+import { GRADE_LABELS, Grade, GradedMetric, scoreCase } from './scoring';
+
+// Case feedback report handed to the crew at debrief: a self-contained HTML page with its own
+// print stylesheet, so it prints the same from the preview and from a downloaded file.
+
+// Intervals without a QC target, listed after the graded ones
+const EXTRA_INTERVAL_ROWS: [keyof CaseMetrics, string][] = [
+  ['interruptionPads', '貼片前中斷'],
+  ['interruptionMcpr', 'MCPR前中斷'],
+  ['compressionBeforePads', '貼片前按壓時間'],
+  ['compressionBeforeMcpr', 'MCPR前按壓時間'],
+];
+
+const GRADE_MARKS: Record<Grade, string> = { pass: '✓', warn: '!', fail: '✗' };
+
+const resultCell = (grade: Grade | null) =>
+  grade === null ? '<td class="result">—</td>' : `<td class="result ${grade}">${GRADE_MARKS[grade]} ${GRADE_LABELS[grade]}</td>`;
+
+const gradedRow = (item: GradedMetric) =>
+  `<tr><th>${item.label}</th><td>${escapeHtml(item.value)}</td><td>${item.target}</td>${resultCell(item.grade)}</tr>`;
+
+const valueRows = (rows: [string, string][]) =>
+  rows.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value || '--')}</td></tr>`).join('');
+
+const STYLE = `
+  @page { size: A4; margin: 14mm; }
+  * { box-sizing: border-box; }
+  body { font-family: 'Noto Sans TC', 'Microsoft JhengHei', sans-serif; color: #1e293b; font-size: 12px; margin: 24px; }
+  h1 { font-size: 20px; color: #0f4c81; margin: 0 0 4px; }
+  h2 { font-size: 14px; color: #0f4c81; border-bottom: 2px solid #0f4c81; padding-bottom: 2px; margin: 18px 0 6px; }
+  .meta { color: #64748b; margin-bottom: 8px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #e2e8f0; padding: 4px 6px; text-align: left; vertical-align: top; }
+  thead th { background: #f1f5f9; }
+  tbody th { width: 45%; font-weight: normal; color: #475569; }
+  .result { white-space: nowrap; }
+  .pass { color: #15803d; font-weight: bold; }
+  .warn { color: #b45309; font-weight: bold; }
+  .fail { color: #b91c1c; font-weight: bold; }
+  .ccf { font-size: 28px; font-weight: bold; color: #0f4c81; }
+  .memo { white-space: pre-wrap; border: 1px solid #e2e8f0; padding: 8px; min-height: 48px; }
+  .timeline svg { max-width: 100%; height: auto; }
+  section { break-inside: avoid; }
+  @media print { body { margin: 0; } }
+`;
+
+export const buildCaseReportHtml = (data: AppState, thresholds: MetricThresholds, times: CorrectedTimes = getCorrectedTimes(data)) => {
+  const { basicInfo, technicalInfo, feedbackPatchInfo } = data;
+  const metrics = computeCaseMetrics(data, times);
+  const { metrics: graded, score } = scoreCase(data, thresholds, metrics);
+  const ccf = graded.find(item => item.key === 'ccf') as GradedMetric;
+  const members = [basicInfo.member1, basicInfo.member2, basicInfo.member3, basicInfo.member4, basicInfo.member5, basicInfo.member6]
+    .filter(Boolean);
+
+  const intervalRows = [
+    ...graded.filter(item => item.key !== 'ccf').map(gradedRow),
+    ...EXTRA_INTERVAL_ROWS.map(([key, label]) => `<tr><th>${label}</th><td>${escapeHtml(formatMetric(metrics[key]))}</td><td>--</td>${resultCell(null)}</tr>`),
+  ].join('');
+
+  const reasons = summarizeInterruptionReasons(data.interruptionRecords, data.interruptionTimeBase.kind);
+  const totalSeconds = reasons.reduce((sum, entry) => sum + entry.seconds, 0);
+  const reasonRows = reasons.length === 0
+    ? '<tr><td colspan="4">無中斷紀錄</td></tr>'
+    : reasons.map(entry => `<tr><td>${escapeHtml(entry.reason || '未選擇原因')}</td><td>${entry.count}</td><td>${entry.seconds}</td><td>${totalSeconds > 0 ? ((entry.seconds / totalSeconds) * 100).toFixed(0) : 0}%</td></tr>`).join('');
+
+  const timeline = buildTimeline(data, times);
+
+  return `<!DOCTYPE html>
+<html lang="zh-Hant">
+<head>
+<meta charset="UTF-8">
+<title>OHCA 品管回饋 ${escapeHtml(basicInfo.caseId)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>OHCA 品管回饋報告</h1>
+<div class="meta">案件編號 ${escapeHtml(basicInfo.caseId || '--')}　日期 ${escapeHtml(basicInfo.date || '--')}　${escapeHtml(basicInfo.battalion)} ${escapeHtml(basicInfo.unit)}　審核者 ${escapeHtml(basicInfo.reviewer || '--')}　品管分數 ${score === null ? '--' : score}</div>
+
+<section>
+<h2>出勤人員</h2>
+<table><tbody>${valueRows([
+    ['出勤人員', members.join('、')],
+    ['隊長', technicalInfo.teamLeader],
+    ['OHCA 類型', basicInfo.ohcaType],
+    ['發現/通報時機', basicInfo.notificationTime],
+  ])}</tbody></table>
+</section>
+
+<section>
+<h2>時間指標</h2>
+<table><thead><tr><th>項目</th><th>結果</th><th>目標</th><th>判定</th></tr></thead><tbody>${intervalRows}</tbody></table>
+</section>
+
+<section>
+<h2>CCF</h2>
+<table><tbody><tr><th>整體 CCF (判斷OHCA ⮕ AED關機)</th><td><span class="ccf">${escapeHtml(ccf.value)}</span></td><td>${ccf.target}</td>${resultCell(ccf.grade)}</tr></tbody></table>
+</section>
+
+<section>
+<h2>CPR 中斷原因</h2>
+<table><thead><tr><th>原因</th><th>次數</th><th>秒數</th><th>占比</th></tr></thead><tbody>${reasonRows}</tbody></table>
+</section>
+
+${timeline ? `<section class="timeline">
+<h2>急救時間軸</h2>
+${timelineToSvg(timeline, data.timeZone)}
+</section>` : ''}
+
+<section>
+<h2>處置認列</h2>
+<table><tbody>${valueRows([
+    ['AED 貼片位置是否正確', technicalInfo.aedPadCorrect],
+    ['是否檢查頸動脈', technicalInfo.checkPulse],
+    ['壓胸機有無使用', technicalInfo.useCompressor],
+    ['AED 初始心律', technicalInfo.initialRhythm],
+    ['首次電擊後心律', technicalInfo.postShockRhythm],
+    ['插管嘗試次數', technicalInfo.endoAttempts.toString()],
+    ['進階呼吸道器材', technicalInfo.airwayDevice],
+    ['建立呼吸道中斷(秒)', technicalInfo.airwayInterruptionSeconds],
+    ['ETCO2 有無放置', technicalInfo.etco2Used],
+    ['ETCO2 數值 (mmHg)', technicalInfo.etco2Value],
+    ['到院前啟動ECMO', technicalInfo.prehospitalEcmo],
+  ])}</tbody></table>
+</section>
+
+<section>
+<h2>回饋貼片</h2>
+<table><tbody>${valueRows([
+    ['架設MCPR前平均徒手按壓深度(cm)', feedbackPatchInfo.manualDepthBeforeMcpr],
+    ['架設MCPR前平均徒手按壓速率(cpm)', feedbackPatchInfo.manualRateBeforeMcpr],
+    ['架設MCPR前平均徒手釋放速度(mm/s)', feedbackPatchInfo.manualReleaseVelocityBeforeMcpr],
+    ['目標中 - 徒手深度(%)', feedbackPatchInfo.targetManualDepthPercent],
+    ['目標中 - 徒手速率(%)', feedbackPatchInfo.targetManualRatePercent],
+    ['目標中 - 徒手按壓(%)', feedbackPatchInfo.targetManualCompressionPercent],
+    ['去顫前停滯時間', feedbackPatchInfo.preShockPauseTime],
+    ['去顫後停滯時間', feedbackPatchInfo.postShockPauseTime],
+  ])}</tbody></table>
+</section>
+
+<section>
+<h2>品管點評</h2>
+<div class="memo">${escapeHtml(basicInfo.memo || '無')}</div>
+</section>
+</body>
+</html>`;
+};
+
+const reportFileName = (data: AppState) => `OHCA-${data.basicInfo.caseId || 'record'}-report.html`;
+
+export const exportCaseReport = (data: AppState, thresholds: MetricThresholds) => {
+  downloadTextFile(buildCaseReportHtml(data, thresholds), reportFileName(data), 'text/html;charset=utf-8');
+};
+
+// Opens the report in a new window and prints it; false when the browser blocked the window
+export const printCaseReport = (data: AppState, thresholds: MetricThresholds) => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.write(buildCaseReportHtml(data, thresholds));
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+};
@@ -0,0 +1,159 @@
+import { AppState, InterruptionRecords } from '../types';
+import { createInterruptionFormatter, createInterruptionItem } from './interruptions';
+import { getCorrectedTimes } from './metrics';
+import { parseCsv } from './recordImport';
+import { parseCaseTime } from './timeUtils';
+
+// Hands-off gaps from a compression event stream exported by the AED or a feedback device.
+// Every time here is seconds since AED power on, the zero of the AED review software; the
+// entries are written in the case's interruption time base.
+
+export const DEFAULT_GAP_THRESHOLD_SECONDS = 2;
+
+export interface CprGap {
+  start: number; // Seconds since AED power on
+  end: number;
+}
+
+export interface CprStream {
+  kind: 'compressions' | 'pauses'; // One row per compression, or one row per pause with start and end
+  compressions: number[];
+  pauses: CprGap[];
+  problems: string[]; // Rows that were skipped and why
+}
+
+const TIME_HEADER = /^(time|timestamp|compression|compressions|時間|按壓時間)$/i;
+const START_HEADER = /^(start|pause\s*start|開始|中斷開始)$/i;
+const END_HEADER = /^(end|pause\s*end|結束|中斷結束)$/i;
+
+const ABSOLUTE = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})[ T]+(\d{1,2}):(\d{2}):(\d{2})(\.\d+)?$/;
+const ELAPSED = /^(?:(\d+):)?(\d{1,2}):(\d{2}(?:\.\d+)?)$/;
+const SECONDS = /^\d+(\.\d+)?$/;
+
+const pad = (value: string) => value.padStart(2, '0');
+
+// Seconds since power on from an AED clock timestamp, an elapsed [H:]MM:SS(.s) or plain seconds
+const createStreamTimeReader = (powerOn: Date, timeZone: string) => (value: string): number | null => {
+  const text = value.trim();
+  const absolute = text.match(ABSOLUTE);
+  if (absolute) {
+    const [, y, mo, d, h, mi, sec, fraction] = absolute;
+    const time = parseCaseTime(`${y}-${pad(mo)}-${pad(d)}T${pad(h)}:${mi}:${sec}`, timeZone);
+    if (!time) return null;
+    return (time.getTime() - powerOn.getTime()) / 1000 + Number(fraction || 0);
+  }
+  const elapsed = text.match(ELAPSED);
+  if (elapsed) return Number(elapsed[1] || 0) * 3600 + Number(elapsed[2]) * 60 + Number(elapsed[3]);
+  if (SECONDS.test(text)) return Number(text);
+  return null;
+};
+
+const findColumn = (header: string[], pattern: RegExp) => header.findIndex(cell => pattern.test(cell.trim()));
+
+// A CSV with a start and an end column is read as pauses, otherwise the time column (or the
+// first column of a header-less list) as compression timestamps
+export const parseCprStream = (text: string, state: AppState): CprStream => {
+  const powerOn = parseCaseTime(state.timeRecords.powerOn, state.timeZone);
+  if (!powerOn) throw new Error('請先填寫 Power ON 時間 (中斷時間自 AED 開機起算)');
+  const readTime = createStreamTimeReader(powerOn, state.timeZone);
+
+  const rows = parseCsv(text);
+  if (rows.length === 0) throw new Error('檔案沒有資料');
+  const header = rows[0];
+  const startColumn = findColumn(header, START_HEADER);
+  const endColumn = findColumn(header, END_HEADER);
+  const timeColumn = findColumn(header, TIME_HEADER);
+  const hasHeader = startColumn >= 0 || timeColumn >= 0 || readTime(header[0] || '') === null;
+
+  const stream: CprStream = {
+    kind: startColumn >= 0 && endColumn >= 0 ? 'pauses' : 'compressions',
+    compressions: [],
+    pauses: [],
+    problems: [],
+  };
+  const firstLine = hasHeader ? 2 : 1;
+  (hasHeader ? rows.slice(1) : rows).forEach((row, i) => {
+    const line = firstLine + i;
+    if (stream.kind === 'pauses') {
+      const start = readTime(row[startColumn] || '');
+      const end = readTime(row[endColumn] || '');
+      if (start === null || end === null) stream.problems.push(`第 ${line} 行：無法解析開始或結束時間`);
+      else if (end <= start) stream.problems.push(`第 ${line} 行：結束未晚於開始`);
+      else stream.pauses.push({ start, end });
+    } else {
+      const time = readTime(row[Math.max(timeColumn, 0)] || '');
+      if (time === null) stream.problems.push(`第 ${line} 行：無法解析時間「${row[Math.max(timeColumn, 0)] || ''}」`);
+      else stream.compressions.push(time);
+    }
+  });
+
+  if (stream.compressions.length + stream.pauses.length === 0) throw new Error('檔案中沒有可辨識的按壓或中斷紀錄');
+  return stream;
+};
+
+// Gaps between consecutive compressions (or listed pauses) longer than the threshold
+export const findHandsOffGaps = (stream: CprStream, thresholdSeconds: number): CprGap[] => {
+  if (stream.kind === 'pauses') {
+    return [...stream.pauses]
+      .sort((a, b) => a.start - b.start)
+      .filter(gap => gap.end - gap.start > thresholdSeconds);
+  }
+  const times = [...stream.compressions].sort((a, b) => a - b);
+  const gaps: CprGap[] = [];
+  for (let i = 1; i < times.length; i++) {
+    if (times[i] - times[i - 1] > thresholdSeconds) gaps.push({ start: times[i - 1], end: times[i] });
+  }
+  return gaps;
+};
+
+export interface SplitGaps {
+  beforePads: CprGap[];
+  beforeMcpr: CprGap[]; // Pads → MCPR, or pads onwards when MCPR was not used
+  after: CprGap[]; // After MCPR, not recorded as interruptions
+}
+
+// Split at padsOn and mcprSetup; a gap spanning a split point is cut in two
+export const splitGaps = (gaps: CprGap[], state: AppState): SplitGaps => {
+  const powerOn = parseCaseTime(state.timeRecords.powerOn, state.timeZone);
+  const pads = parseCaseTime(state.timeRecords.padsOn, state.timeZone);
+  if (!powerOn || !pads) throw new Error('請先填寫 Power ON 與貼上貼片時間');
+  const mcpr = getCorrectedTimes(state).mcpr;
+
+  const padsAt = (pads.getTime() - powerOn.getTime()) / 1000;
+  const mcprAt = mcpr ? (mcpr.getTime() - powerOn.getTime()) / 1000 : Infinity;
+
+  const result: SplitGaps = { beforePads: [], beforeMcpr: [], after: [] };
+  const push = (list: CprGap[], start: number, end: number) => {
+    if (end > start) list.push({ start, end });
+  };
+  gaps.forEach(({ start, end }) => {
+    push(result.beforePads, start, Math.min(end, padsAt));
+    push(result.beforeMcpr, Math.max(start, padsAt), Math.min(end, mcprAt));
+    push(result.after, Math.max(start, mcprAt), end);
+  });
+  return result;
+};
+
+export interface InterruptionFill {
+  records: InterruptionRecords;
+  outOfRange: number; // Gaps the time base cannot express, e.g. before the video start
+}
+
+// New lists for both sections, one entry per gap in order, reasons left for the reviewer
+export const fillInterruptions = (split: SplitGaps, state: AppState): InterruptionFill => {
+  const powerOn = parseCaseTime(state.timeRecords.powerOn, state.timeZone);
+  if (!powerOn) throw new Error('請先填寫 Power ON 時間');
+  const write = createInterruptionFormatter(state);
+  const toText = (seconds: number) => write(new Date(powerOn.getTime() + Math.round(seconds) * 1000));
+
+  const fill: InterruptionFill = { records: { beforePads: [], beforeMcpr: [] }, outOfRange: 0 };
+  (['beforePads', 'beforeMcpr'] as const).forEach((section) => {
+    split[section].forEach((gap) => {
+      const start = toText(gap.start);
+      const end = toText(gap.end);
+      if (start === '' || end === '' || Math.round(gap.end) <= Math.round(gap.start)) fill.outOfRange += 1;
+      else fill.records[section].push({ ...createInterruptionItem(), start, end });
+    });
+  });
+  return fill;
+};
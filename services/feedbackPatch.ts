@@ -0,0 +1,43 @@
+import { FeedbackPatchInfo } from '../types';
+
+// Values read off the CPR feedback patch report. They are typed as text: a number, 'N/A' when
+// the patch did not report the value (or no shock was given, for the pauses), or left empty.
+
+export type PatchValue =
+  | { kind: 'empty' }
+  | { kind: 'na' }
+  | { kind: 'number'; value: number }
+  | { kind: 'invalid' };
+
+export const parsePatchValue = (text: string): PatchValue => {
+  const value = text.trim();
+  if (!value) return { kind: 'empty' };
+  if (/^n\/?a$/i.test(value)) return { kind: 'na' };
+  if (/^-?\d+(\.\d+)?$/.test(value)) return { kind: 'number', value: Number(value) };
+  return { kind: 'invalid' };
+};
+
+// The number in a patch value, null when it is empty, N/A or not a number
+export const patchNumber = (text: string) => {
+  const parsed = parsePatchValue(text);
+  return parsed.kind === 'number' ? parsed.value : null;
+};
+
+export interface PatchField {
+  key: keyof FeedbackPatchInfo;
+  label: string;
+  min: number;
+  max?: number; // Values above are implausible and flagged for the reviewer
+  placeholder?: string;
+}
+
+export const FEEDBACK_PATCH_FIELDS: PatchField[] = [
+  { key: 'manualDepthBeforeMcpr', label: '架設MCPR前平均徒手按壓深度(cm)', min: 0, max: 10 },
+  { key: 'manualRateBeforeMcpr', label: '架設MCPR前平均徒手按壓速率(cpm)', min: 0, max: 200 },
+  { key: 'manualReleaseVelocityBeforeMcpr', label: '架設MCPR前平均徒手釋放速度(mm/s)', min: 0 },
+  { key: 'targetManualDepthPercent', label: '目標中 - 徒手深度(%)', min: 0, max: 100 },
+  { key: 'targetManualRatePercent', label: '目標中 - 徒手速率(%)', min: 0, max: 100 },
+  { key: 'targetManualCompressionPercent', label: '目標中 - 徒手按壓(%)', min: 0, max: 100 },
+  { key: 'preShockPauseTime', label: '去顫前停滯時間(未電擊=N/A)', min: 0, placeholder: '秒；未電擊可留空或輸入 N/A' },
+  { key: 'postShockPauseTime', label: '去顫後停滯時間(未電擊=N/A)', min: 0, placeholder: '秒；未電擊可留空或輸入 N/A' },
+];
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { AppState, INITIAL_STATE, InterruptionItem } from '../types';
+import { TIME_BASE_FORMATS, createInterruptionClock, validateInterruptions } from './interruptions';
+
+const DAY = '2024-03-01';
+
+const aedClockCase = (start: string, end: string): AppState => {
+  const data: AppState = JSON.parse(JSON.stringify(INITIAL_STATE));
+  data.interruptionTimeBase = { kind: 'aedClock', videoStart: '' };
+  data.timeRecords.powerOn = `${DAY}T14:00:00`;
+  data.interruptionRecords.beforePads = [{ id: 'a', start, end, reason: 'rhythm' }];
+  return data;
+};
+
+describe('AED clock interruptions', () => {
+  it('reads HHMMSS and HH:MM:SS on the date of power on', () => {
+    const toTime = createInterruptionClock(aedClockCase('', ''));
+
+    expect(toTime('143005')?.getTime()).toBe(new Date(`${DAY}T14:30:05+08:00`).getTime());
+    expect(toTime('14:30:05')?.getTime()).toBe(new Date(`${DAY}T14:30:05+08:00`).getTime());
+    // Past midnight, over 12 hours before power on
+    expect(toTime('00:10:00')?.getTime()).toBe(new Date('2024-03-02T00:10:00+08:00').getTime());
+  });
+
+  it('rejects times without seconds instead of reading them as minutes and seconds', () => {
+    const toTime = createInterruptionClock(aedClockCase('', ''));
+    ['1430', '14:30', '24:00:00', '14:3000'].forEach(value => expect(toTime(value)).toBeNull());
+  });
+
+  it('reports a time in another format as a format error on that input', () => {
+    const format = `時間格式應為 ${TIME_BASE_FORMATS.aedClock}`;
+
+    expect(validateInterruptions(aedClockCase('1430', '14:30:10'))).toContainEqual(
+      { section: 'beforePads', index: 0, input: 'start', kind: 'logic', message: format }
+    );
+    expect(validateInterruptions(aedClockCase('14:30:00', '14:31'))).toContainEqual(
+      { section: 'beforePads', index: 0, input: 'end', kind: 'logic', message: format }
+    );
+    expect(validateInterruptions(aedClockCase('143000', '14:30:10')).some(issue => issue.message === format)).toBe(false);
+  });
+});
+
+describe('validateInterruptions', () => {
+  it('checks overlaps in the time base when the entries cannot be placed on the AED clock', () => {
+    const data: AppState = JSON.parse(JSON.stringify(INITIAL_STATE));
+    data.interruptionRecords.beforePads = [{ id: 'a', start: '0010', end: '0040', reason: 'rhythm' }];
+    data.interruptionRecords.beforeMcpr = [{ id: 'b', start: '0030', end: '0050', reason: 'rhythm' }];
+
+    expect(validateInterruptions(data)).toEqual([
+      { section: 'beforeMcpr', index: 0, input: 'start', kind: 'logic', message: '與 貼上貼片前 第 1 筆重疊' },
+    ]);
+  });
+});
+
+// A video-timed case anchored at power on: OHCA 10:00:00, pads 10:02:00, MCPR 10:06:00
+const videoCase = (beforePads: InterruptionItem[], beforeMcpr: InterruptionItem[] = []): AppState => {
+  const data: AppState = JSON.parse(JSON.stringify(INITIAL_STATE));
+  data.timeRecords.powerOn = `${DAY}T10:00:00`;
+  data.timeRecords.ohcaJudgment.emt1 = `${DAY}T10:00:00`;
+  data.timeRecords.padsOn = `${DAY}T10:02:00`;
+  data.timeRecords.mcprSetup.emt1 = `${DAY}T10:06:00`;
+  data.interruptionRecords = { beforePads, beforeMcpr };
+  return data;
+};
+
+const entry = (start: string, end: string, reason = 'rhythm'): InterruptionItem => ({ id: `${start}-${end}`, start, end, reason });
+
+describe('validateInterruptions on an anchored video base', () => {
+  it('accepts entries that fit their phases', () => {
+    expect(validateInterruptions(videoCase([entry('0010', '0040')], [entry('0300', '0320')]))).toEqual([]);
+  });
+
+  it('reports an entry overlapping one in the other section', () => {
+    const issues = validateInterruptions(videoCase([entry('0100', '0150')], [entry('0140', '0200')]));
+    expect(issues).toContainEqual(
+      { section: 'beforeMcpr', index: 0, input: 'start', kind: 'logic', message: '與 貼上貼片前 第 1 筆重疊' }
+    );
+  });
+
+  it('reports an end before its start on the end input', () => {
+    expect(validateInterruptions(videoCase([entry('0040', '0010')]))).toEqual([
+      { section: 'beforePads', index: 0, input: 'end', kind: 'logic', message: '結束 (0010) 未晚於開始 (0040)' },
+    ]);
+  });
+
+  it('reports an entry longer than its phase', () => {
+    const issues = validateInterruptions(videoCase([], [entry('0200', '0700')]));
+    expect(issues).toContainEqual(
+      { section: 'beforeMcpr', index: 0, input: 'start', kind: 'logic', message: '中斷 300 秒，超過 貼上貼片 → MCPR架設 的 240 秒' }
+    );
+  });
+
+  it('reports an entry outside its phase window', () => {
+    expect(validateInterruptions(videoCase([entry('0150', '0210')]))).toEqual([
+      { section: 'beforePads', index: 0, input: 'start', kind: 'logic', message: '超出 判斷OHCA → 貼上貼片 區間' },
+    ]);
+  });
+
+  it('reports a missing reason or time as missing', () => {
+    expect(validateInterruptions(videoCase([entry('0010', '0040', ''), entry('0050', '')]))).toEqual([
+      { section: 'beforePads', index: 0, input: 'reason', kind: 'missing', message: '未選擇中斷原因' },
+      { section: 'beforePads', index: 1, input: 'end', kind: 'missing', message: '未填寫開始或結束' },
+    ]);
+  });
+
+  it('reports a section total longer than its phase on the section', () => {
+    const issues = validateInterruptions(videoCase([entry('0000', '0100'), entry('0020', '0130')]));
+    expect(issues).toContainEqual(
+      { section: 'beforePads', index: null, input: null, kind: 'logic', message: '中斷總和 130 秒，超過 判斷OHCA → 貼上貼片 的 120 秒' }
+    );
+  });
+});
@@ -0,0 +1,274 @@
+import { AppState, InterruptionItem, InterruptionRecords, InterruptionTimeBase } from '../types';
+import { CorrectedTimes, calculateInterruption, getCorrectedTimes, getSafeDuration, interruptionItemSeconds } from './metrics';
+import { formatClock, parseCaseTime, parseClockSeconds, parseInterruptionSeconds, parseTimeOfDaySeconds, toCaseIso } from './timeUtils';
+import { FieldTarget } from './validationRules';
+
+// Interruption lists grow with the case. The Google Sheet payload keeps the columns of the
+// original fixed layout and carries anything beyond it in an overflow field.
+
+export const createInterruptionItem = (): InterruptionItem => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  start: '',
+  end: '',
+  reason: '',
+});
+
+export const isBlankInterruption = (item: InterruptionItem) => !item.start && !item.end && !item.reason;
+
+export const addInterruption = (records: InterruptionRecords, section: keyof InterruptionRecords): InterruptionRecords => ({
+  ...records,
+  [section]: [...records[section], createInterruptionItem()],
+});
+
+export const removeInterruption = (records: InterruptionRecords, section: keyof InterruptionRecords, index: number): InterruptionRecords => ({
+  ...records,
+  [section]: records[section].filter((_, i) => i !== index),
+});
+
+// Swap an entry with its neighbour; moving past either end does nothing
+export const moveInterruption = (
+  records: InterruptionRecords,
+  section: keyof InterruptionRecords,
+  index: number,
+  direction: -1 | 1
+): InterruptionRecords => {
+  const target = index + direction;
+  const list = [...records[section]];
+  if (target < 0 || target >= list.length) return records;
+  [list[index], list[target]] = [list[target], list[index]];
+  return { ...records, [section]: list };
+};
+
+// Legacy payload slots: reason1–5/duration1–5 hold the entries before pads,
+// reason6–15/duration6–15 those before MCPR, as in the old fixed 5 + 10 layout
+export const LEGACY_SLOTS: Record<keyof InterruptionRecords, { first: number; count: number }> = {
+  beforePads: { first: 1, count: 5 },
+  beforeMcpr: { first: 6, count: 10 },
+};
+
+// Short section names for the overflow field
+const OVERFLOW_LABELS: Record<keyof InterruptionRecords, string> = {
+  beforePads: '貼片前',
+  beforeMcpr: 'MCPR前',
+};
+
+// `detailedInterruptions` of the Google Sheet payload:
+//   reason1…reason15, duration1…duration15  entries in their legacy slots (always present, '' when unused)
+//   overflowCount                            entries that did not fit a slot
+//   overflow                                 those entries as "<section><n>:<reason>:<seconds>" joined by "; ",
+//                                            e.g. "貼片前6:3. AED 分析:12; MCPR前11:7. 搬運:20"
+// Blank entries are skipped and do not take a slot.
+export const buildDetailedInterruptions = (records: InterruptionRecords, kind: InterruptionTimeBase['kind']) => {
+  const detailed: Record<string, string | number> = {};
+  const overflow: string[] = [];
+
+  (Object.keys(LEGACY_SLOTS) as Array<keyof InterruptionRecords>).forEach((section) => {
+    const { first, count } = LEGACY_SLOTS[section];
+    const items = records[section].filter(item => !isBlankInterruption(item));
+    for (let i = 0; i < count; i++) {
+      const item = items[i];
+      const duration = item ? interruptionItemSeconds(item, kind) : 0;
+      detailed[`reason${first + i}`] = item ? item.reason : '';
+      detailed[`duration${first + i}`] = duration > 0 ? duration.toString() : '';
+    }
+    items.slice(count).forEach((item, i) => {
+      overflow.push(`${OVERFLOW_LABELS[section]}${count + i + 1}:${item.reason}:${interruptionItemSeconds(item, kind)}`);
+    });
+  });
+
+  detailed.overflowCount = overflow.length;
+  detailed.overflow = overflow.join('; ');
+  return detailed;
+};
+
+const DAY_SECONDS = 24 * 60 * 60;
+const HALF_DAY_MS = 12 * 60 * 60 * 1000;
+
+// Accepted input per time base, for hints and validation messages
+export const TIME_BASE_FORMATS: Record<InterruptionTimeBase['kind'], string> = {
+  video: 'MMSS、MM:SS 或 H:MM:SS',
+  aedClock: 'HH:MM:SS 或 HHMMSS',
+};
+
+// Reads interruption times as AED clock instants, on the same timeline as the TimeRecord events.
+// A time gives null when it cannot be read or the base has no anchor yet: a video needs its start
+// or Power ON, AED clock times need the date of Power ON or the case date.
+export const createInterruptionClock = (data: AppState) => {
+  const { kind, videoStart } = data.interruptionTimeBase;
+  const powerOn = parseCaseTime(data.timeRecords.powerOn, data.timeZone);
+
+  if (kind === 'video') {
+    const anchor = videoStart ? parseCaseTime(videoStart, data.timeZone) : powerOn;
+    return (value: string): Date | null => {
+      const seconds = parseClockSeconds(value);
+      return anchor && seconds !== null ? new Date(anchor.getTime() + seconds * 1000) : null;
+    };
+  }
+
+  const date = powerOn ? toCaseIso(powerOn, data.timeZone).slice(0, 10) : data.basicInfo.date;
+  return (value: string): Date | null => {
+    const seconds = parseTimeOfDaySeconds(value);
+    if (seconds === null || !date) return null;
+    const time = parseCaseTime(`${date}T${formatClock(seconds)}`, data.timeZone);
+    // Over 12 hours before power on: after midnight of the next day
+    return time && powerOn && powerOn.getTime() - time.getTime() > HALF_DAY_MS ? new Date(time.getTime() + DAY_SECONDS * 1000) : time;
+  };
+};
+
+// Writes AED clock instants in a time base, the inverse of createInterruptionClock.
+// Gives '' for a time before the video start or when the base has no anchor.
+export const createInterruptionFormatter = (data: AppState, base: InterruptionTimeBase = data.interruptionTimeBase) => {
+  if (base.kind === 'aedClock') {
+    return (time: Date) => toCaseIso(time, data.timeZone).slice(11);
+  }
+  const anchor = base.videoStart
+    ? parseCaseTime(base.videoStart, data.timeZone)
+    : parseCaseTime(data.timeRecords.powerOn, data.timeZone);
+  return (time: Date) => {
+    if (!anchor) return '';
+    const seconds = Math.round((time.getTime() - anchor.getTime()) / 1000);
+    if (seconds < 0) return '';
+    // MMSS below 100 minutes, as reviewers type it; H:MM:SS beyond
+    if (seconds < 100 * 60) return `${Math.floor(seconds / 60).toString().padStart(2, '0')}${(seconds % 60).toString().padStart(2, '0')}`;
+    return formatClock(seconds).replace(/^0/, '');
+  };
+};
+
+// New time base for a case. Entries are rewritten in the new base when both bases can place them,
+// so switching between video and AED clock keeps them on the same instants; others are left as typed.
+export const changeTimeBase = (data: AppState, base: InterruptionTimeBase): InterruptionRecords => {
+  if (base.kind === data.interruptionTimeBase.kind) return data.interruptionRecords;
+  const read = createInterruptionClock(data);
+  const write = createInterruptionFormatter(data, base);
+  const convert = (value: string) => {
+    const time = read(value);
+    return (time && write(time)) || value;
+  };
+  const convertAll = (items: InterruptionItem[]) =>
+    items.map(item => ({ ...item, start: convert(item.start), end: convert(item.end) }));
+  return {
+    beforePads: convertAll(data.interruptionRecords.beforePads),
+    beforeMcpr: convertAll(data.interruptionRecords.beforeMcpr),
+  };
+};
+
+// Count and total seconds per reason over both sections, longest total first; blank entries are skipped
+export const summarizeInterruptionReasons = (records: InterruptionRecords, kind: InterruptionTimeBase['kind']) => {
+  const byReason = new Map<string, { reason: string; count: number; seconds: number }>();
+  [...records.beforePads, ...records.beforeMcpr]
+    .filter(item => !isBlankInterruption(item))
+    .forEach((item) => {
+      const entry = byReason.get(item.reason) || { reason: item.reason, count: 0, seconds: 0 };
+      entry.count += 1;
+      entry.seconds += interruptionItemSeconds(item, kind);
+      byReason.set(item.reason, entry);
+    });
+  return Array.from(byReason.values()).sort((a, b) => b.seconds - a.seconds);
+};
+
+export const SECTION_LABELS: Record<keyof InterruptionRecords, string> = {
+  beforePads: '貼上貼片前',
+  beforeMcpr: '架設 MCPR 前',
+};
+
+export interface InterruptionIssue {
+  section: keyof InterruptionRecords;
+  index: number | null; // Entry in the section, null for the section as a whole
+  input: 'start' | 'end' | 'reason' | null; // The entry's input to fix, null for the section
+  kind: 'missing' | 'logic';
+  message: string;
+}
+
+// "中斷時間: 貼上貼片前 第 2 筆" — where an issue is in the Interruption tab
+export const describeIssueLocation = (issue: InterruptionIssue) =>
+  `中斷時間: ${SECTION_LABELS[issue.section]}${issue.index === null ? '' : ` 第 ${issue.index + 1} 筆`}`;
+
+export const interruptionIssueTarget = (issue: InterruptionIssue): FieldTarget => ({
+  tab: 'interruptions',
+  field: issue.index === null ? issue.section : `${issue.section}.${issue.index}.${issue.input}`,
+});
+
+// Phase each section covers: OHCA judgment → pads, and pads → MCPR (AED off when MCPR was not used)
+const phaseWindows = (data: AppState, times: CorrectedTimes) => {
+  const isMcprNA = data.timeRecords.mcprSetup.emt1 === 'N/A';
+  return {
+    beforePads: { from: times.ohca, to: times.pads, label: '判斷OHCA → 貼上貼片' },
+    beforeMcpr: { from: times.pads, to: isMcprNA ? times.aedOff : times.mcpr, label: isMcprNA ? '貼上貼片 → AED關機' : '貼上貼片 → MCPR架設' },
+  };
+};
+
+// Problems of single entries, overlaps between entries, and entries or totals that do not fit their phase.
+// Entries are placed through the time base, so windows and overlaps are only checked once it has an anchor.
+export const validateInterruptions = (data: AppState, times: CorrectedTimes = getCorrectedTimes(data)): InterruptionIssue[] => {
+  const issues: InterruptionIssue[] = [];
+  const windows = phaseWindows(data, times);
+  const toTime = createInterruptionClock(data);
+  const baseKind = data.interruptionTimeBase.kind;
+  // Each entry's start as an instant (null without an anchor) and as seconds in the time base
+  const spans: { section: keyof InterruptionRecords; index: number; at: Date | null; startSec: number; duration: number }[] = [];
+
+  (Object.keys(SECTION_LABELS) as Array<keyof InterruptionRecords>).forEach((section) => {
+    const items = data.interruptionRecords[section];
+    const window = windows[section];
+    const phaseSeconds = getSafeDuration(window.from, window.to);
+
+    items.forEach((item, index) => {
+      const add = (kind: InterruptionIssue['kind'], message: string, input: InterruptionIssue['input'] = 'start') =>
+        issues.push({ section, index, input, kind, message });
+      if (isBlankInterruption(item)) return; // Not exported, see buildDetailedInterruptions
+      if (!item.start || !item.end) {
+        add('missing', '未填寫開始或結束', item.start ? 'end' : 'start');
+        return;
+      }
+      const startSec = parseInterruptionSeconds(item.start, baseKind);
+      const endSec = parseInterruptionSeconds(item.end, baseKind);
+      if (startSec === null || endSec === null) {
+        add('logic', `時間格式應為 ${TIME_BASE_FORMATS[baseKind]}`, startSec === null ? 'start' : 'end');
+        return;
+      }
+      if (!item.reason) add('missing', '未選擇中斷原因', 'reason');
+
+      const duration = interruptionItemSeconds(item, baseKind);
+      if (duration === 0) {
+        add('logic', `結束 (${item.end}) 未晚於開始 (${item.start})`, 'end');
+        return;
+      }
+      const start = toTime(item.start);
+      const end = toTime(item.end);
+      if (phaseSeconds !== null && phaseSeconds >= 0 && duration > phaseSeconds) {
+        add('logic', `中斷 ${duration} 秒，超過 ${window.label} 的 ${phaseSeconds} 秒`);
+      } else if ((start && window.from && start < window.from) || (end && window.to && end > window.to)) {
+        add('logic', `超出 ${window.label} 區間`);
+      }
+      spans.push({ section, index, at: start, startSec, duration });
+    });
+
+    const total = calculateInterruption(items, baseKind);
+    if (phaseSeconds !== null && phaseSeconds >= 0 && total > phaseSeconds) {
+      issues.push({ section, index: null, input: null, kind: 'logic', message: `中斷總和 ${total} 秒，超過 ${window.label} 的 ${phaseSeconds} 秒` });
+    }
+  });
+
+  // Both sections are on the same timeline, so overlaps are checked across them. Entries are compared
+  // as instants when all of them can be placed, otherwise all as seconds in the time base, never mixed.
+  const placed = spans.every(span => span.at !== null);
+  const positioned = spans.map(span => {
+    const start = placed && span.at ? span.at.getTime() / 1000 : span.startSec;
+    return { ...span, start, end: start + span.duration };
+  });
+  const sorted = positioned.sort((a, b) => a.start - b.start);
+  sorted.forEach((span, i) => {
+    const earlier = sorted.slice(0, i).find(other => other.end > span.start);
+    if (earlier) {
+      issues.push({
+        section: span.section,
+        index: span.index,
+        input: 'start',
+        kind: 'logic',
+        message: `與 ${SECTION_LABELS[earlier.section]} 第 ${earlier.index + 1} 筆重疊`,
+      });
+    }
+  });
+
+  return issues;
+};
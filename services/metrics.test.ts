@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { AppState, INITIAL_STATE } from '../types';
+import { calculateInterruption, computeCaseMetrics, getSafeDuration } from './metrics';
+
+const DAY = '2024-03-01';
+
+// A blank case with EMT1 times (uncalibrated EMT1 reads as AED time) and direct AED times
+const caseWith = (emt1Times: Partial<Record<string, string>>, aedTimes: Partial<Record<string, string>> = {}): AppState => {
+  const state: AppState = JSON.parse(JSON.stringify(INITIAL_STATE));
+  Object.entries(emt1Times).forEach(([key, value]) => {
+    (state.timeRecords[key as 'ohcaJudgment'] as { emt1: string }).emt1 = value as string;
+  });
+  Object.entries(aedTimes).forEach(([key, value]) => {
+    (state.timeRecords as unknown as Record<string, string>)[key] = value as string;
+  });
+  return state;
+};
+
+describe('computeCaseMetrics', () => {
+  it('counts a span crossing midnight without a date change as the next day', () => {
+    const data = caseWith(
+      { ohcaJudgment: `${DAY}T23:59:00`, cprStart: `${DAY}T00:00:30` },
+      { powerOn: `${DAY}T23:59:30`, padsOn: `${DAY}T00:01:00`, aedOff: `${DAY}T00:20:00` }
+    );
+    const metrics = computeCaseMetrics(data);
+
+    expect(metrics.cprDelay).toMatchObject({ status: 'ok', value: 90 });
+    expect(metrics.padsDelay).toMatchObject({ status: 'ok', value: 120 });
+    expect(metrics.ohcaToAedOff).toMatchObject({ status: 'ok', value: 21 * 60 });
+    expect(getSafeDuration(new Date(`${DAY}T23:59:50Z`), new Date(`${DAY}T00:00:10Z`))).toBe(20);
+  });
+
+  it('treats MCPR marked N/A by EMT1 as not performed and runs CCF to AED off', () => {
+    const data = caseWith(
+      { ohcaJudgment: `${DAY}T10:00:00`, mcprSetup: 'N/A' },
+      { padsOn: `${DAY}T10:01:00`, aedOff: `${DAY}T10:11:00` }
+    );
+    data.interruptionRecords.beforePads = [{ id: 'a', start: '0010', end: '0040', reason: '' }];
+    data.interruptionRecords.beforeMcpr = [{ id: 'b', start: '0200', end: '0300', reason: '' }];
+    const metrics = computeCaseMetrics(data);
+
+    expect(metrics.postMcprCompression).toMatchObject({ status: 'notPerformed', value: null, naReason: '未使用 MCPR' });
+    expect(metrics.compressionBeforeMcpr).toMatchObject({ status: 'ok', value: 600 - 60 });
+    // Interruptions before MCPR do not count against CCF when MCPR was not used
+    expect(metrics.ccf.status).toBe('ok');
+    expect(metrics.ccf.value).toBeCloseTo(((660 - 30) / 660) * 100);
+  });
+
+  it('marks a negative duration invalid instead of returning a value', () => {
+    const data = caseWith(
+      { ohcaJudgment: `${DAY}T10:02:00` },
+      { powerOn: `${DAY}T10:01:00`, padsOn: `${DAY}T10:00:30` }
+    );
+    const metrics = computeCaseMetrics(data);
+
+    expect(metrics.padsDelay).toMatchObject({ status: 'invalid', value: null });
+    expect(metrics.compressionBeforePads.status).toBe('invalid');
+    expect(metrics.cprDelay.status).toBe('missing');
+  });
+});
+
+describe('calculateInterruption', () => {
+  it('reads entries in their time base, as validateInterruptions does', () => {
+    const items = [
+      { id: 'a', start: '14:30', end: '14:45', reason: '' },
+      { id: 'b', start: '143000', end: '14:30:20', reason: '' },
+    ];
+
+    // Under the AED clock, "14:30" is not a time of day and counts nothing
+    expect(calculateInterruption(items, 'aedClock')).toBe(20);
+    expect(calculateInterruption(items.slice(0, 1), 'video')).toBe(15);
+  });
+
+  it('uses the case time base for CCF', () => {
+    const data = caseWith({ ohcaJudgment: `${DAY}T10:00:00` }, { padsOn: `${DAY}T10:01:00`, aedOff: `${DAY}T10:10:00` });
+    data.interruptionTimeBase = { kind: 'aedClock', videoStart: '' };
+    data.interruptionRecords.beforePads = [
+      { id: 'a', start: '10:00', end: '10:30', reason: '' },
+      { id: 'b', start: '10:00:10', end: '10:00:40', reason: '' },
+    ];
+
+    expect(computeCaseMetrics(data).interruptionPads).toMatchObject({ status: 'ok', value: 30 });
+  });
+});
@@ -0,0 +1,184 @@
+import { AppState, InterruptionItem, InterruptionTimeBase, TimeRecord } from '../types';
+import { calculateCorrectedAedTime, parseInterruptionSeconds } from './timeUtils';
+
+// Single source for the quality metrics shown in the preview, the copied summary,
+// the Google Sheet payload and the CSV/Excel export.
+
+export type CorrectedTimes = ReturnType<typeof getCorrectedTimes>;
+
+export type MetricUnit = 'seconds' | 'percent';
+
+// ok: value is set. notPerformed: the step was recorded as N/A. missing: a time is not filled in.
+// invalid: the times give a negative or zero span.
+export type MetricStatus = 'ok' | 'notPerformed' | 'missing' | 'invalid';
+
+export interface Metric {
+  value: number | null; // null unless status is 'ok'
+  unit: MetricUnit;
+  status: MetricStatus;
+  naReason: string; // Why there is no value, empty when status is 'ok'
+}
+
+export interface CaseMetrics {
+  cprDelay: Metric; // OHCA judgment → CPR start
+  padsDelay: Metric; // OHCA judgment → pads on
+  bvmTime: Metric; // OHCA judgment → first ventilation
+  airwayTime: Metric; // OHCA judgment → advanced airway
+  medDelay: Metric; // OHCA judgment → first medication
+  interruptionPads: Metric; // Total interruption before pads
+  interruptionMcpr: Metric; // Total interruption before MCPR
+  compressionBeforePads: Metric; // OHCA judgment → pads, minus interruptions before pads
+  compressionBeforeMcpr: Metric; // Pads → MCPR (AED off without MCPR), minus interruptions before MCPR
+  ohcaToAedOff: Metric;
+  padsTime: Metric; // Pads on → AED off
+  postMcprCompression: Metric; // MCPR → AED off
+  ccf: Metric; // Chest compression fraction, OHCA judgment → AED off
+}
+
+const TIME_LABELS: Record<keyof CorrectedTimes, string> = {
+  found: '發現患者',
+  contact: '接觸患者',
+  ohca: '判斷OHCA',
+  cpr: 'CPR開始',
+  pads: '貼上貼片',
+  vent: '第一次給氣',
+  mcpr: 'MCPR架設',
+  med: '第一次給藥',
+  airway: '呼吸道建立',
+  aedOff: 'AED關機',
+  aedOn: 'Power ON',
+  rosc: 'ROSC',
+  firstShock: '首次電擊',
+};
+
+export const getCorrectedTimes = (data: AppState) => {
+  const getT = (key: keyof TimeRecord) =>
+    calculateCorrectedAedTime(key, data.timeRecords[key], data.calibration, data.timeZone, data.timeSources);
+
+  return {
+    found: getT('found'),
+    contact: getT('contact'),
+    ohca: getT('ohcaJudgment'),
+    cpr: getT('cprStart'),
+    pads: getT('padsOn'),
+    vent: getT('firstVentilation'),
+    mcpr: getT('mcprSetup'),
+    med: getT('firstMed'),
+    airway: getT('airway'),
+    aedOff: getT('aedOff'),
+    aedOn: getT('powerOn'),
+    rosc: getT('rosc'),
+    firstShock: getT('firstShock'),
+  };
+};
+
+// Seconds from start to end. A difference below -12 hours is taken as a case crossing
+// midnight whose date was not advanced (e.g. 23:59 → 00:01) and gets 24 hours added.
+export const getSafeDuration = (start: Date | null, end: Date | null): number | null => {
+  if (!start || !end) return null;
+  let diff = (end.getTime() - start.getTime()) / 1000;
+  if (diff < -43200) diff += 86400;
+  return Math.floor(diff);
+};
+
+// Length of one interruption in either time base; an unreadable time or an end not after its start
+// counts as 0. As in getSafeDuration, an end over 12 hours before the start is an AED clock entry
+// crossing midnight.
+export const interruptionItemSeconds = (item: InterruptionItem, kind: InterruptionTimeBase['kind']) => {
+  const startSec = parseInterruptionSeconds(item.start, kind);
+  const endSec = parseInterruptionSeconds(item.end, kind);
+  if (startSec === null || endSec === null) return 0;
+  let diff = endSec - startSec;
+  if (diff < -43200) diff += 86400;
+  return diff > 0 ? diff : 0;
+};
+
+export const calculateInterruption = (items: InterruptionItem[], kind: InterruptionTimeBase['kind']) =>
+  items.reduce((acc, item) => acc + interruptionItemSeconds(item, kind), 0);
+
+const ok = (value: number, unit: MetricUnit = 'seconds'): Metric => ({ value, unit, status: 'ok', naReason: '' });
+
+const unavailable = (status: Exclude<MetricStatus, 'ok'>, naReason: string, unit: MetricUnit = 'seconds'): Metric => ({
+  value: null,
+  unit,
+  status,
+  naReason,
+});
+
+const durationMetric = (times: CorrectedTimes, from: keyof CorrectedTimes, to: keyof CorrectedTimes): Metric => {
+  const missing = [from, to].filter(key => !times[key]).map(key => TIME_LABELS[key]);
+  if (missing.length > 0) return unavailable('missing', `缺少時間：${missing.join('、')}`);
+  const seconds = getSafeDuration(times[from], times[to]) as number;
+  if (seconds < 0) return unavailable('invalid', `[${TIME_LABELS[to]}] 早於 [${TIME_LABELS[from]}]`);
+  return ok(seconds);
+};
+
+const minusSeconds = (metric: Metric, seconds: number): Metric =>
+  metric.value === null ? metric : ok(metric.value - seconds);
+
+export const computeCaseMetrics = (data: AppState, times: CorrectedTimes = getCorrectedTimes(data)): CaseMetrics => {
+  const isMcprNA = data.timeRecords.mcprSetup.emt1 === 'N/A';
+  const isVentNA = data.timeRecords.firstVentilation.emt1 === 'N/A';
+  const isAirwayNA = data.timeRecords.airway.emt1 === 'N/A';
+
+  const interruptionPads = calculateInterruption(data.interruptionRecords.beforePads, data.interruptionTimeBase.kind);
+  const interruptionMcpr = calculateInterruption(data.interruptionRecords.beforeMcpr, data.interruptionTimeBase.kind);
+
+  // CCF over OHCA judgment → AED off, with or without MCPR. Interruptions before MCPR only count when MCPR was used.
+  let ccf: Metric;
+  const ccfTotal = getSafeDuration(times.ohca, times.aedOff);
+  if (ccfTotal === null) {
+    ccf = unavailable('missing', durationMetric(times, 'ohca', 'aedOff').naReason, 'percent');
+  } else if (ccfTotal <= 0) {
+    ccf = unavailable('invalid', '[AED關機] 未晚於 [判斷OHCA]', 'percent');
+  } else {
+    const compressionSeconds = ccfTotal - interruptionPads - (isMcprNA ? 0 : interruptionMcpr);
+    ccf = ok((compressionSeconds / ccfTotal) * 100, 'percent');
+  }
+
+  return {
+    cprDelay: durationMetric(times, 'ohca', 'cpr'),
+    padsDelay: durationMetric(times, 'ohca', 'pads'),
+    bvmTime: isVentNA ? unavailable('notPerformed', '未執行 BVM') : durationMetric(times, 'ohca', 'vent'),
+    airwayTime: isAirwayNA ? unavailable('notPerformed', '未建立輔助呼吸道') : durationMetric(times, 'ohca', 'airway'),
+    medDelay: durationMetric(times, 'ohca', 'med'),
+    interruptionPads: ok(interruptionPads),
+    interruptionMcpr: ok(interruptionMcpr),
+    compressionBeforePads: minusSeconds(durationMetric(times, 'ohca', 'pads'), interruptionPads),
+    compressionBeforeMcpr: minusSeconds(
+      isMcprNA ? durationMetric(times, 'pads', 'aedOff') : durationMetric(times, 'pads', 'mcpr'),
+      interruptionMcpr
+    ),
+    ohcaToAedOff: durationMetric(times, 'ohca', 'aedOff'),
+    padsTime: durationMetric(times, 'pads', 'aedOff'),
+    postMcprCompression: isMcprNA ? unavailable('notPerformed', '未使用 MCPR') : durationMetric(times, 'mcpr', 'aedOff'),
+    ccf,
+  };
+};
+
+// Seconds as "N秒" or "M分S秒"
+export const formatDuration = (seconds: number) => {
+  const abs = Math.abs(seconds);
+  if (abs < 60) return `${Math.floor(seconds)}秒`;
+  return `${Math.floor(abs / 60)}分${Math.floor(abs % 60)}秒`;
+};
+
+// Text for the preview and the copied summary
+export const formatMetric = (metric: Metric) => {
+  if (metric.status === 'ok' && metric.value !== null) {
+    return metric.unit === 'percent' ? `${metric.value.toFixed(1)}%` : formatDuration(metric.value);
+  }
+  if (metric.status === 'notPerformed') return metric.naReason;
+  if (metric.status === 'invalid') return '時間錯誤';
+  return metric.unit === 'percent' ? 'N/A' : '--';
+};
+
+// Cell value for the Google Sheet payload and CSV/Excel: seconds as numbers, percentages as text
+export const metricExportValue = (metric: Metric): number | string => {
+  if (metric.status === 'ok' && metric.value !== null) {
+    return metric.unit === 'percent' ? `${metric.value.toFixed(1)}%` : metric.value;
+  }
+  if (metric.status === 'notPerformed') return metric.naReason;
+  if (metric.status === 'invalid') return '時間錯誤';
+  return metric.unit === 'percent' ? 'N/A' : '';
+};
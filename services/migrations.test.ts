@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_STATE } from '../types';
+import { SCHEMA_VERSION, migrateState } from './migrations';
+
+const DAY = '2024-03-01';
+
+// A v3 case: padsOn keyed by EMT, scenario and clinical fields together in crewInfo,
+// one calibration pair per EMT, no airway time and no feedback patch tab
+const v3Case = () => ({
+  timeRecords: {
+    ohcaJudgment: { emt1: `${DAY}T10:00:00`, emt2: '', emt3: '' },
+    padsOn: { emt1: `${DAY}T10:05:30`, emt2: '', emt3: '' },
+    aedOff: `${DAY}T10:20:00`,
+  },
+  calibration: {
+    emt1: { keyTime: `${DAY}T10:00:30`, aedTime: `${DAY}T10:00:00` },
+  },
+  crewInfo: { unit: '第一分隊', useCompressor: 'Yes', airwayDevice: 'SGA', endoAttempts: 1 },
+  technicalInfo: { checkPulse: 'No' },
+  interruptionRecords: {
+    beforePads: [
+      { id: 'a', start: '0010', end: '0040', reason: 'rhythm' },
+      { id: 'b', start: '', end: '', reason: '' },
+    ],
+    beforeMcpr: [{ id: 'c', start: '', end: '', reason: '' }],
+  },
+});
+
+describe('migrateState', () => {
+  it('upgrades a v3 case to the current shape', () => {
+    const state = migrateState(v3Case(), 3);
+
+    // EMT-keyed padsOn becomes the AED time through the EMT1 calibration
+    expect(state.timeRecords.padsOn).toBe(`${DAY}T10:05:00`);
+    expect(state.timeRecords.aedOff).toBe(`${DAY}T10:20:00`);
+    expect(state.timeRecords.airway).toEqual({ emt1: '', emt2: '', emt3: '' });
+    expect(state.timeRecords.rosc).toEqual({ emt1: '', emt2: '', emt3: '' });
+
+    expect(state.basicInfo).toMatchObject({ unit: '第一分隊' });
+    expect(state.basicInfo).not.toHaveProperty('useCompressor');
+    // Clinical fields move to technicalInfo without overwriting a value already there
+    expect(state.technicalInfo).toMatchObject({ useCompressor: 'Yes', airwayDevice: 'SGA', endoAttempts: 1, checkPulse: 'No' });
+    expect(state).not.toHaveProperty('crewInfo');
+
+    expect(state.feedbackPatchInfo).toEqual(INITIAL_STATE.feedbackPatchInfo);
+    expect(state.calibration.emt1).toEqual([{ keyTime: `${DAY}T10:00:30`, aedTime: `${DAY}T10:00:00` }]);
+    expect(state.calibration.emt2).toEqual([{ keyTime: '', aedTime: '' }]);
+    expect(state.interruptionRecords).toEqual({
+      beforePads: [{ id: 'a', start: '0010', end: '0040', reason: 'rhythm' }],
+      beforeMcpr: [],
+    });
+    expect(state.timeZone).toBe('Asia/Taipei');
+    expect(state.timeSources).toEqual(INITIAL_STATE.timeSources);
+    expect(state.interruptionTimeBase).toEqual(INITIAL_STATE.interruptionTimeBase);
+    expect(state.crewRoster).toEqual(INITIAL_STATE.crewRoster);
+  });
+
+  it('upgrades a v1 case with missing sections as v3', () => {
+    const state = migrateState({ timeRecords: { padsOn: { emt1: `${DAY}T10:05:00`, emt2: '', emt3: '' } } }, 1);
+
+    // Uncalibrated, the EMT1 time reads as the AED time
+    expect(state.timeRecords.padsOn).toBe(`${DAY}T10:05:00`);
+    expect(state.timeRecords.airway).toEqual({ emt1: '', emt2: '', emt3: '' });
+    expect(state.timeRecords.powerOn).toBe('');
+    expect(state.basicInfo).toEqual(INITIAL_STATE.basicInfo);
+    expect(state.technicalInfo).toEqual(INITIAL_STATE.technicalInfo);
+    expect(state.feedbackPatchInfo).toEqual(INITIAL_STATE.feedbackPatchInfo);
+    expect(state.calibration).toEqual(INITIAL_STATE.calibration);
+    expect(state.interruptionRecords).toEqual({ beforePads: [], beforeMcpr: [] });
+  });
+
+  it('rejects states that are not objects or newer than the app', () => {
+    expect(() => migrateState(null, 3)).toThrow();
+    expect(() => migrateState({}, SCHEMA_VERSION + 1)).toThrow();
+  });
+});
@@ -0,0 +1,155 @@
+import { AppState, INITIAL_STATE, PersonnelCalibration } from '../types';
+import { DEFAULT_TIME_ZONE, calculateCorrectedAedTime, toCaseIso } from './timeUtils';
+
+// Bump together with a new entry in MIGRATIONS whenever the AppState shape changes.
+// Versions 3 to 6 match the old `ohca-app-state-v*` localStorage keys.
+export const SCHEMA_VERSION = 12;
+export const OLDEST_SCHEMA_VERSION = 3;
+
+// A stored state of some older version; sections are checked before use
+type StoredState = Record<string, unknown>;
+
+type Migration = (state: StoredState) => StoredState;
+
+// A nested section of a stored state, or an empty one when it is missing or not an object
+const section = (value: unknown): StoredState =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as StoredState) : {};
+
+const emptyEmtTimes = () => ({ emt1: '', emt2: '', emt3: '' });
+
+// Calibration before v10 held a single pair per EMT
+const toCalibrationPairs = (calibration: unknown): PersonnelCalibration => {
+  const stored = section(calibration);
+  const pairsOf = (value: unknown) => (Array.isArray(value) ? value : [value || { keyTime: '', aedTime: '' }]);
+  return { emt1: pairsOf(stored.emt1), emt2: pairsOf(stored.emt2), emt3: pairsOf(stored.emt3) };
+};
+
+// Keyed by the version a migration upgrades FROM; each step returns the next version's shape.
+const MIGRATIONS: Record<number, Migration> = {
+  // v3 -> v4: padsOn changed from EMT-keyed times to a direct AED time,
+  // and the scenario/crew fields were split from the clinical fields.
+  3: (state) => {
+    const timeRecords = { ...section(state.timeRecords) };
+    const padsOn = timeRecords.padsOn;
+    if (padsOn && typeof padsOn === 'object') {
+      const corrected = state.calibration
+        ? calculateCorrectedAedTime('padsOn', padsOn, toCalibrationPairs(state.calibration), DEFAULT_TIME_ZONE)
+        : null;
+      timeRecords.padsOn = corrected && !isNaN(corrected.getTime()) ? toCaseIso(corrected, DEFAULT_TIME_ZONE) : '';
+    } else if (typeof padsOn !== 'string') {
+      timeRecords.padsOn = '';
+    }
+
+    const { crewInfo, ...rest } = state;
+    const basicInfo = { ...section(crewInfo), ...section(state.basicInfo) };
+    const technicalInfo = { ...section(state.technicalInfo) };
+    (['checkPulse', 'useCompressor', 'initialRhythm', 'postShockRhythm', 'endoAttempts', 'airwayDevice'] as const)
+      .forEach((key) => {
+        if (key in basicInfo) {
+          if (technicalInfo[key] === undefined) technicalInfo[key] = basicInfo[key];
+          delete basicInfo[key];
+        }
+      });
+
+    return { ...rest, timeRecords, basicInfo, technicalInfo };
+  },
+
+  // v4 -> v5: airway time added to the timeline
+  4: (state) => ({
+    ...state,
+    timeRecords: { airway: emptyEmtTimes(), ...section(state.timeRecords) },
+  }),
+
+  // v5 -> v6: feedback patch tab, battalion and remaining technical fields added
+  5: (state) => ({
+    ...state,
+    basicInfo: { ...INITIAL_STATE.basicInfo, ...section(state.basicInfo) },
+    technicalInfo: { ...INITIAL_STATE.technicalInfo, ...section(state.technicalInfo) },
+    feedbackPatchInfo: { ...INITIAL_STATE.feedbackPatchInfo, ...section(state.feedbackPatchInfo) },
+  }),
+
+  // v6 -> v7: crew roster log; existing crews were typed by hand
+  6: (state) => ({
+    ...state,
+    crewRoster: JSON.parse(JSON.stringify(INITIAL_STATE.crewRoster)),
+  }),
+
+  // v7 -> v8: explicit case time zone; earlier cases were all entered in Taiwan
+  7: (state) => ({
+    timeZone: DEFAULT_TIME_ZONE,
+    ...state,
+  }),
+
+  // v8 -> v9: per-field calibration source; earlier cases used the EMT1 → EMT2 → EMT3 priority
+  8: (state) => ({
+    ...state,
+    timeSources: { ...INITIAL_STATE.timeSources },
+  }),
+
+  // v9 -> v10: several calibration pairs per EMT for clock drift
+  9: (state) => ({
+    ...state,
+    calibration: toCalibrationPairs(state.calibration),
+  }),
+
+  // v10 -> v11: interruption lists grow as needed; the unused slots of the fixed 5 + 10 layout are dropped
+  10: (state) => {
+    const isBlank = (item: unknown) => {
+      const { start, end, reason } = section(item);
+      return !start && !end && !reason;
+    };
+    const compact = (items: unknown) => (Array.isArray(items) ? items.filter(item => !isBlank(item)) : []);
+    const records = section(state.interruptionRecords);
+    return {
+      ...state,
+      interruptionRecords: {
+        beforePads: compact(records.beforePads),
+        beforeMcpr: compact(records.beforeMcpr),
+      },
+    };
+  },
+
+  // v11 -> v12: interruption time base; earlier entries were MMSS counted from AED power on
+  11: (state) => ({
+    ...state,
+    interruptionTimeBase: { ...INITIAL_STATE.interruptionTimeBase },
+  }),
+};
+
+// Upgrade a stored state of any supported version to the current AppState shape
+export const migrateState = (raw: unknown, fromVersion: number): AppState => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Stored state is not an object');
+  }
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new Error(`Stored state version ${fromVersion} is newer than this app (${SCHEMA_VERSION})`);
+  }
+
+  let state: StoredState = JSON.parse(JSON.stringify(raw));
+  let version = Math.max(fromVersion, OLDEST_SCHEMA_VERSION);
+
+  // Fill sections that every version is expected to have
+  state.calibration = state.calibration || JSON.parse(JSON.stringify(INITIAL_STATE.calibration));
+  state.timeRecords = section(state.timeRecords);
+  state.basicInfo = section(state.basicInfo);
+  state.technicalInfo = section(state.technicalInfo);
+  state.interruptionRecords = state.interruptionRecords || JSON.parse(JSON.stringify(INITIAL_STATE.interruptionRecords));
+
+  while (version < SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from version ${version}`);
+    state = migrate(state);
+    version += 1;
+  }
+
+  // Time fields missing from a partially saved record are left empty rather than undefined
+  const initialTimes = INITIAL_STATE.timeRecords;
+  const timeRecords = section(state.timeRecords);
+  (Object.keys(initialTimes) as Array<keyof typeof initialTimes>).forEach((key) => {
+    if (timeRecords[key] === undefined) {
+      timeRecords[key] = typeof initialTimes[key] === 'string' ? '' : emptyEmtTimes();
+    }
+  });
+
+  return { ...state, timeRecords } as unknown as AppState;
+};
@@ -0,0 +1,233 @@
+import { AppSettings, OutboxEntry, SubmissionReceipt } from '../types';
+import { addCaseReceipt } from './caseLibrary';
+import { canonicalJson, sha256Hex } from './hashUtils';
+import { getAllOutbox, putOutbox, removeOutbox } from './storage';
+
+// Submissions are queued per endpoint and retried with exponential backoff,
+// so reviewing without signal (e.g. in a station basement) loses nothing.
+const BASE_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 30 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+
+// Request format understood by the Apps Script in setup.html and scripts/mock-apps-script.mjs
+export const SUBMISSION_PROTOCOL = 1;
+
+type Listener = (entries: OutboxEntry[]) => void;
+const listeners = new Set<Listener>();
+
+let processing: Promise<void> | null = null;
+
+const createEntryId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// The payload as the backend will parse it (undefined fields dropped), so both sides hash the same JSON
+const toWirePayload = (payload: unknown): unknown => JSON.parse(JSON.stringify(payload));
+
+const hashPayload = (payload: unknown) => sha256Hex(canonicalJson(toWirePayload(payload)));
+
+const retryDelayMs = (attempts: number) => Math.min(BASE_RETRY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_MS);
+
+// Newest first
+export const listOutbox = async () =>
+  (await getAllOutbox()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+const notify = async () => {
+  if (listeners.size === 0) return;
+  const entries = await listOutbox();
+  listeners.forEach(listener => listener(entries));
+};
+
+export const subscribeOutbox = (listener: Listener) => {
+  listeners.add(listener);
+  listOutbox().then(listener).catch(e => console.error('Failed to read outbox', e));
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export interface EnqueueResult {
+  entryIds: string[];
+  alreadySent: string[]; // Endpoint names that already received this exact payload
+}
+
+// Queue a submission for the configured endpoints. An identical payload already sent to an
+// endpoint is not queued again, and a still-pending one is replaced so only the latest is sent.
+export const enqueueSubmission = async (
+  caseKey: string,
+  caseId: string,
+  payload: unknown,
+  settings: AppSettings
+): Promise<EnqueueResult> => {
+  const payloadHash = await hashPayload(payload);
+  const endpoints = [{ name: '主要上傳網址', url: settings.scriptUrl }, ...settings.additionalEndpoints]
+    .filter(endpoint => endpoint.url);
+  const existing = (await getAllOutbox()).filter(entry => entry.caseKey === caseKey);
+  const now = new Date().toISOString();
+  const result: EnqueueResult = { entryIds: [], alreadySent: [] };
+
+  for (const endpoint of endpoints) {
+    const sameEndpoint = existing.filter(entry => entry.url === endpoint.url);
+    if (sameEndpoint.some(entry => entry.payloadHash === payloadHash && (entry.status === 'sent' || entry.status === 'sending'))) {
+      result.alreadySent.push(endpoint.name || endpoint.url);
+      continue;
+    }
+
+    const waiting = sameEndpoint.find(entry => entry.status === 'pending' || entry.status === 'failed');
+    const id = waiting ? waiting.id : createEntryId();
+    await putOutbox({
+      id,
+      caseKey,
+      caseId,
+      endpointName: endpoint.name,
+      url: endpoint.url,
+      payload: toWirePayload(payload),
+      payloadHash,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      lastError: '',
+      createdAt: waiting ? waiting.createdAt : now,
+      sentAt: '',
+      receipt: null,
+    });
+    result.entryIds.push(id);
+  }
+
+  await notify();
+  return result;
+};
+
+// Whether this case was delivered before, and if so whether with the same data
+export const getSubmissionHistory = async (caseKey: string, payload: unknown): Promise<'none' | 'identical' | 'changed'> => {
+  const sent = (await getAllOutbox()).filter(entry => entry.caseKey === caseKey && entry.status === 'sent');
+  if (sent.length === 0) return 'none';
+  const payloadHash = await hashPayload(payload);
+  return sent.some(entry => entry.payloadHash === payloadHash) ? 'identical' : 'changed';
+};
+
+export const getOutboxEntries = async (ids: string[]) =>
+  (await getAllOutbox()).filter(entry => ids.includes(entry.id));
+
+type SendResult =
+  | { accepted: true; receipt: SubmissionReceipt | null }
+  | { accepted: false; error: string };
+
+// The payload may change while an entry waits, so the hash is part of the id the backend deduplicates on
+const submissionIdOf = (entry: OutboxEntry) => `${entry.id}.${entry.payloadHash.slice(0, 16)}`;
+
+// Fields of an Apps Script reply, or none when it is not a JSON object
+const replyFields = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+const send = async (entry: OutboxEntry): Promise<SendResult> => {
+  const submissionId = submissionIdOf(entry);
+  // text/plain keeps this a simple CORS request: Apps Script cannot answer a preflight,
+  // but its responses are readable cross-origin, which is what carries the receipt back
+  const response = await fetch(entry.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain;charset=utf-8' },
+    body: JSON.stringify({ protocol: SUBMISSION_PROTOCOL, submissionId, payload: entry.payload }),
+  });
+  if (!response.ok) throw new Error(`伺服器回應 HTTP ${response.status}`);
+
+  let parsed: unknown;
+  try {
+    parsed = await response.json();
+  } catch (e) {
+    throw new Error('伺服器回應不是有效的 JSON');
+  }
+  const body = replyFields(parsed);
+  if (body.ok !== true) {
+    return { accepted: false, error: `伺服器拒絕：${typeof body.error === 'string' && body.error ? body.error : '未說明原因'}` };
+  }
+
+  // Scripts deployed before receipts only answer { ok: true }
+  if (body.receipt === undefined || body.receipt === null) return { accepted: true, receipt: null };
+  const receipt = replyFields(body.receipt);
+  // A mismatch would repeat on every retry (the backend answers with the stored receipt), so it is not retried
+  if (receipt.submissionId !== submissionId) return { accepted: false, error: '回條的送出編號不符，無法確認送達內容' };
+  if (receipt.payloadHash !== entry.payloadHash) return { accepted: false, error: '回條的資料雜湊與送出內容不符' };
+  const rowId = Number(receipt.rowId);
+  if (!Number.isInteger(rowId) || rowId < 1 || typeof receipt.receivedAt !== 'string') {
+    return { accepted: false, error: '回條格式不正確，無法確認送達內容' };
+  }
+  return {
+    accepted: true,
+    receipt: {
+      submissionId,
+      endpointName: entry.endpointName,
+      url: entry.url,
+      rowId,
+      receivedAt: receipt.receivedAt,
+      payloadHash: entry.payloadHash,
+    },
+  };
+};
+
+const runQueue = async () => {
+  const now = Date.now();
+  const due = (await getAllOutbox())
+    .filter(entry => entry.status === 'pending' && new Date(entry.nextAttemptAt).getTime() <= now)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const entry of due) {
+    if (!navigator.onLine) break;
+
+    // Persist the in-flight state first so a reload mid-request cannot send it twice
+    await putOutbox({ ...entry, status: 'sending' });
+    await notify();
+
+    const attempts = entry.attempts + 1;
+    try {
+      const result = await send(entry);
+      if (result.accepted) {
+        if (result.receipt) await addCaseReceipt(entry.caseKey, result.receipt);
+        await putOutbox({ ...entry, status: 'sent', attempts, lastError: '', sentAt: new Date().toISOString(), receipt: result.receipt });
+      } else {
+        await putOutbox({ ...entry, status: 'failed', attempts, lastError: result.error });
+      }
+    } catch (e) {
+      const giveUp = attempts >= MAX_ATTEMPTS;
+      await putOutbox({
+        ...entry,
+        status: giveUp ? 'failed' : 'pending',
+        attempts,
+        lastError: e instanceof Error ? e.message : String(e),
+        nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)).toISOString(),
+      });
+    }
+    await notify();
+  }
+};
+
+// Send every entry that is due. Concurrent calls share one run so nothing is sent twice.
+export const processOutbox = (): Promise<void> => {
+  if (!processing) {
+    processing = runQueue()
+      .catch(e => console.error('Failed to process outbox', e))
+      .finally(() => {
+        processing = null;
+      });
+  }
+  return processing;
+};
+
+// Entries left 'sending' by a closed tab are unknown: the request may or may not have arrived.
+// They are marked failed so the reviewer decides whether to resend.
+export const recoverInterruptedSends = async () => {
+  const interrupted = (await getAllOutbox()).filter(entry => entry.status === 'sending');
+  for (const entry of interrupted) {
+    await putOutbox({ ...entry, status: 'failed', lastError: '上傳過程中斷，無法確認是否送達' });
+  }
+  if (interrupted.length > 0) await notify();
+};
+
+export const retryOutboxEntry = async (entry: OutboxEntry) => {
+  await putOutbox({ ...entry, status: 'pending', attempts: 0, nextAttemptAt: new Date().toISOString() });
+  await notify();
+  await processOutbox();
+};
+
+export const removeOutboxEntry = async (id: string) => {
+  await removeOutbox(id);
+  await notify();
+};
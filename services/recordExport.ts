@@ -1,5 +1,9 @@
-import { AppState, InterruptionItem, TimeRecord } from '../types';
-import { calculateCorrectedAedTime } from './timeUtils';
+import { AppState, MetricThresholds } from '../types';
+import { computeCaseMetrics, getCorrectedTimes, metricExportValue } from './metrics';
+import { DEFAULT_TIME_ZONE, caseToday, toCaseIso } from './timeUtils';
+import { describeIssueLocation, interruptionIssueTarget, validateInterruptions } from './interruptions';
+import { DEFAULT_THRESHOLDS, scoreCase } from './scoring';
+import { ValidationMessage, evaluateRules, toTimeValues } from './validationRules';
 
 export const EXPORT_HEADERS = [
   'Reviewer',
@@ -37,167 +41,67 @@ export const EXPORT_HEADERS = [
   'Pre-MCPR Comp Time',
   'Post-MCPR Compression Time',
   'AED貼片位置是否正確',
+  'QC Score',
 ];
 
-export const getCorrectedTimes = (data: AppState) => {
-  const getT = (key: keyof TimeRecord) =>
-    calculateCorrectedAedTime(key, data.timeRecords[key], data.calibration);
-
-  return {
-    found: getT('found'),
-    contact: getT('contact'),
-    ohca: getT('ohcaJudgment'),
-    cpr: getT('cprStart'),
-    pads: getT('padsOn'),
-    vent: getT('firstVentilation'),
-    mcpr: getT('mcprSetup'),
-    med: getT('firstMed'),
-    airway: getT('airway'),
-    aedOff: getT('aedOff'),
-    aedOn: getT('powerOn'),
-    rosc: getT('rosc'),
-    firstShock: getT('firstShock'),
-  };
-};
-
-export const formatDateTime = (d: Date | null) => {
+// `YYYY-MM-DD HH:mm:ss` in the case time zone
+export const formatDateTime = (d: Date | null, timeZone: string) => {
   if (!d || isNaN(d.getTime())) return '';
-  const pad = (n: number) => n.toString().padStart(2, '0');
-  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
-};
-
-export const getSafeDuration = (start: Date | null, end: Date | null): number | null => {
-  if (!start || !end) return null;
-  let diff = (end.getTime() - start.getTime()) / 1000;
-  if (diff < -43200) diff += 86400;
-  return Math.floor(diff);
-};
-
-export const calculateMMSSSeconds = (mmss: string) => {
-  if (!mmss || mmss.length !== 4) return 0;
-  const mins = parseInt(mmss.substring(0, 2), 10);
-  const secs = parseInt(mmss.substring(2, 4), 10);
-  if (isNaN(mins) || isNaN(secs)) return 0;
-  return (mins * 60) + secs;
+  return toCaseIso(d, timeZone).replace('T', ' ');
 };
 
-export const calculateInterruption = (items: InterruptionItem[]) => {
-  return items.reduce((acc, item) => {
-    const startSec = calculateMMSSSeconds(item.start);
-    const endSec = calculateMMSSSeconds(item.end);
-    const diff = endSec > startSec ? endSec - startSec : 0;
-    return acc + diff;
-  }, 0);
-};
+// Time cell of a step that may be recorded as not performed. As in computeCaseMetrics, EMT1 marks it,
+// and the cell keeps the N/A so importRecordsCsv can tell it from a missing time.
+const stepTimeCell = (data: AppState, key: 'firstVentilation' | 'mcprSetup' | 'airway', time: Date | null) =>
+  data.timeRecords[key].emt1 === 'N/A' ? 'N/A' : formatDateTime(time, data.timeZone);
 
+// Errors block export and upload; warnings are listed for the reviewer to confirm.
+// Each message carries the input to fix it at, see FieldTarget.
 export const validateRecord = (data: AppState, times = getCorrectedTimes(data)) => {
-  const missingFields: string[] = [];
-  const logicErrors: string[] = [];
-  const { basicInfo, technicalInfo, timeRecords } = data;
-
-  if (!basicInfo.reviewer) missingFields.push('基本資料: 審核者姓名');
-  if (!basicInfo.battalion) missingFields.push('基本資料: 大隊別');
-  if (!basicInfo.unit) missingFields.push('基本資料: 分隊');
-  if (!basicInfo.caseId) missingFields.push('基本資料: 案件編號');
-  if (!basicInfo.date) missingFields.push('基本資料: 案件發生日期');
-  if (!basicInfo.ohcaType) missingFields.push('基本資料: OHCA 類型');
-  if (!basicInfo.notificationTime) missingFields.push('基本資料: 發現/通報時機');
-  if (!basicInfo.member1) missingFields.push('基本資料: 人員 1');
-  if (!basicInfo.member2) missingFields.push('基本資料: 人員 2');
-
-  if (!technicalInfo.aedPadCorrect) missingFields.push('處置認列: AED 貼片位置');
-  if (!technicalInfo.checkPulse) missingFields.push('處置認列: 檢查頸動脈');
-  if (!technicalInfo.useCompressor) missingFields.push('處置認列: 壓胸機有無使用');
-  if (!technicalInfo.initialRhythm) missingFields.push('處置認列: AED 初始心律');
-  if (!technicalInfo.postShockRhythm) missingFields.push('處置認列: AED初始心律首次電擊之後的心律');
-  if (!technicalInfo.airwayDevice) missingFields.push('處置認列: 進階呼吸道器材');
-  if (!technicalInfo.airwayInterruptionSeconds) missingFields.push('處置認列: 建立呼吸道中斷(秒)');
-  if (technicalInfo.airwayInterruptionSeconds && !/^\d+(\.\d+)?$/.test(technicalInfo.airwayInterruptionSeconds)) {
-    logicErrors.push('處置認列：[建立呼吸道中斷(秒)] 請輸入數字');
-  }
-
-  const checkTime = (key: keyof TimeRecord, label: string) => {
-    const val = timeRecords[key];
-    if (typeof val === 'string') {
-      if (!val) missingFields.push(`時間紀錄: ${label}`);
-    } else if (!val.emt1 && !val.emt2 && !val.emt3) {
-      missingFields.push(`時間紀錄: ${label}`);
-    }
-  };
-
-  const checkConditionalTime = (key: keyof TimeRecord, label: string) => {
-    const val = timeRecords[key] as any;
-    const isNA = val.emt1 === 'N/A' || val.emt2 === 'N/A' || val.emt3 === 'N/A';
-    const hasValue = val.emt1 || val.emt2 || val.emt3;
-    if (!isNA && !hasValue) missingFields.push(`時間紀錄: ${label}`);
-  };
-
-  checkTime('found', '發現患者');
-  checkTime('contact', '接觸患者');
-  checkTime('ohcaJudgment', '判斷 OHCA');
-  checkTime('cprStart', 'CPR 開始');
-  checkTime('powerOn', 'Power ON');
-  checkTime('padsOn', '貼上貼片');
-  checkTime('firstMed', '第一次給藥');
-  checkTime('aedOff', 'AED 關機');
-  checkConditionalTime('firstVentilation', '第一次給氣');
-  checkConditionalTime('mcprSetup', 'MCPR 架設');
-  checkConditionalTime('airway', '呼吸道建立時間');
-
-  const checkOrder = (earlier: Date | null, later: Date | null, labelEarlier: string, labelLater: string) => {
-    if (earlier && later && later.getTime() < earlier.getTime()) {
-      logicErrors.push(`時間順序錯誤：[${labelLater}] 不能早於 [${labelEarlier}]`);
-    }
-  };
-
-  checkOrder(times.found, times.contact, '發現患者', '接觸患者');
-  checkOrder(times.contact, times.ohca, '接觸患者', '判斷OHCA');
-  checkOrder(times.ohca, times.cpr, '判斷OHCA', 'CPR開始');
-  checkOrder(times.ohca, times.aedOn, '判斷OHCA', 'Power ON');
-  checkOrder(times.aedOn, times.pads, 'Power ON', '貼上貼片');
-  checkOrder(times.ohca, times.vent, '判斷OHCA', '第一次給氣');
-  checkOrder(times.cpr, times.mcpr, 'CPR開始', 'MCPR架設');
-  checkOrder(times.ohca, times.med, '判斷OHCA', '第一次給藥');
-  checkOrder(times.ohca, times.airway, '判斷OHCA', '呼吸道建立');
-  if (times.mcpr) checkOrder(times.mcpr, times.aedOff, 'MCPR架設', 'AED關機');
-  else checkOrder(times.pads, times.aedOff, '貼上貼片', 'AED關機');
-
-  return { missingFields, logicErrors, isValid: missingFields.length === 0 && logicErrors.length === 0 };
+  const missingFields: ValidationMessage[] = [];
+  const logicErrors: ValidationMessage[] = [];
+  const warnings: ValidationMessage[] = [];
+
+  evaluateRules(data, toTimeValues(times)).forEach(({ severity, kind, message, target }) => {
+    if (severity === 'warning') warnings.push({ message, target });
+    else (kind === 'missing' ? missingFields : logicErrors).push({ message, target });
+  });
+
+  validateInterruptions(data, times).forEach((issue) => {
+    (issue.kind === 'missing' ? missingFields : logicErrors).push({
+      message: `${describeIssueLocation(issue)}: ${issue.message}`,
+      target: interruptionIssueTarget(issue),
+    });
+  });
+
+  return { missingFields, logicErrors, warnings, isValid: missingFields.length === 0 && logicErrors.length === 0 };
 };
 
-export const buildOrderedRecord = (data: AppState) => {
+export const buildOrderedRecord = (data: AppState, thresholds: MetricThresholds = DEFAULT_THRESHOLDS) => {
   const times = getCorrectedTimes(data);
-  const interruptionMcpr = calculateInterruption(data.interruptionRecords.beforeMcpr);
-  const isMcprNA = data.timeRecords.mcprSetup.emt1 === 'N/A';
-  const durationOhcaToPads = getSafeDuration(times.ohca, times.pads);
-  const durationPadsToMcpr = isMcprNA ? getSafeDuration(times.pads, times.aedOff) : getSafeDuration(times.pads, times.mcpr);
-
-  const ohcaToAedOff = getSafeDuration(times.ohca, times.aedOff);
-  const ohcaToPads = durationOhcaToPads;
-  const padsTime = getSafeDuration(times.pads, times.aedOff);
-  const preMcprCompTime = durationPadsToMcpr !== null ? durationPadsToMcpr - interruptionMcpr : '';
-  const postMcprCompressionTime = getSafeDuration(times.mcpr, times.aedOff);
+  const metrics = computeCaseMetrics(data, times);
+  const { score } = scoreCase(data, thresholds, metrics);
 
   return {
     'Reviewer': [data.basicInfo.reviewer, data.basicInfo.caseId].filter(Boolean).join('_'),
     'OHCA 發現/通報時機': data.basicInfo.notificationTime,
-    '接觸患者 (Adj)': formatDateTime(times.contact),
-    'OHCA Judge (Adj)': formatDateTime(times.ohca),
+    '接觸患者 (Adj)': formatDateTime(times.contact, data.timeZone),
+    'OHCA Judge (Adj)': formatDateTime(times.ohca, data.timeZone),
     'Check Pulse': data.technicalInfo.checkPulse,
-    'CPR Start (Adj)': formatDateTime(times.cpr),
-    'Ventilation (Adj)': formatDateTime(times.vent),
-    'First Med (Adj)': formatDateTime(times.med),
+    'CPR Start (Adj)': formatDateTime(times.cpr, data.timeZone),
+    'Ventilation (Adj)': stepTimeCell(data, 'firstVentilation', times.vent),
+    'First Med (Adj)': formatDateTime(times.med, data.timeZone),
     'Compressor Used': data.technicalInfo.useCompressor,
-    'MCPR Setup (Adj)': formatDateTime(times.mcpr),
-    'MCPR Interruption AED': interruptionMcpr,
-    'Pads On (Adj)': formatDateTime(times.pads),
+    'MCPR Setup (Adj)': stepTimeCell(data, 'mcprSetup', times.mcpr),
+    'MCPR Interruption AED': metricExportValue(metrics.interruptionMcpr),
+    'Pads On (Adj)': formatDateTime(times.pads, data.timeZone),
     'Initial Rhythm': data.technicalInfo.initialRhythm,
-    '首次電擊 (免校正)': formatDateTime(times.firstShock),
+    '首次電擊 (免校正)': formatDateTime(times.firstShock, data.timeZone),
     'AED初始心律首次電擊之後的心律': data.technicalInfo.postShockRhythm,
-    'AED Off (Adj)': formatDateTime(times.aedOff),
+    'AED Off (Adj)': formatDateTime(times.aedOff, data.timeZone),
     'Endo Attempts': data.technicalInfo.endoAttempts,
     'Airway Device': data.technicalInfo.airwayDevice,
-    'Airway (Adj)': formatDateTime(times.airway),
+    'Airway (Adj)': stepTimeCell(data, 'airway', times.airway),
     '建立呼吸道中斷(秒)': data.technicalInfo.airwayInterruptionSeconds,
     '到院前啟動ECMO(3-19)': data.technicalInfo.prehospitalEcmo,
     '架設MCPR前平均徒手按壓深度(cm)': data.feedbackPatchInfo.manualDepthBeforeMcpr,
@@ -208,16 +112,17 @@ export const buildOrderedRecord = (data: AppState) => {
     '目標中 - 徒手按壓(%)': data.feedbackPatchInfo.targetManualCompressionPercent,
     '去顫前停滯時間(未電擊=N/A)': data.feedbackPatchInfo.preShockPauseTime,
     '去顫後停滯時間(未電擊=N/A)': data.feedbackPatchInfo.postShockPauseTime,
-    '辨識OHCA至AED關機/PAD off時間': ohcaToAedOff ?? '',
-    'Time in compressions(判斷OHCA至AED貼上貼片區間)': ohcaToPads ?? '',
-    'Pads time': padsTime ?? '',
-    'Pre-MCPR Comp Time': preMcprCompTime,
-    'Post-MCPR Compression Time': postMcprCompressionTime ?? '',
+    '辨識OHCA至AED關機/PAD off時間': metricExportValue(metrics.ohcaToAedOff),
+    'Time in compressions(判斷OHCA至AED貼上貼片區間)': metricExportValue(metrics.padsDelay),
+    'Pads time': metricExportValue(metrics.padsTime),
+    'Pre-MCPR Comp Time': metricExportValue(metrics.compressionBeforeMcpr),
+    'Post-MCPR Compression Time': metricExportValue(metrics.postMcprCompression),
     'AED貼片位置是否正確': data.technicalInfo.aedPadCorrect,
+    'QC Score': score === null ? '' : score,
   };
 };
 
-const downloadTextFile = (content: string, filename: string, mimeType: string) => {
+export const downloadTextFile = (content: string, filename: string, mimeType: string) => {
   const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
@@ -234,19 +139,96 @@ const csvEscape = (value: unknown) => {
   return `"${text.replace(/"/g, '""')}"`;
 };
 
-export const exportRecordCsv = (data: AppState) => {
-  const record = buildOrderedRecord(data) as Record<string, unknown>;
+export const escapeHtml = (value: unknown) =>
+  String(value ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const buildCsv = (headers: string[], records: Array<Record<string, unknown>>) => {
   const rows = [
-    EXPORT_HEADERS.map(csvEscape).join(','),
-    EXPORT_HEADERS.map((header) => csvEscape(record[header])).join(','),
+    headers.map(csvEscape).join(','),
+    ...records.map((record) => headers.map((header) => csvEscape(record[header])).join(',')),
   ];
-  downloadTextFile('\uFEFF' + rows.join('\r\n'), `OHCA-${data.basicInfo.caseId || 'record'}-Ver6.csv`, 'text/csv;charset=utf-8');
+  return '\uFEFF' + rows.join('\r\n');
 };
 
-export const exportRecordExcel = (data: AppState) => {
-  const record = buildOrderedRecord(data) as Record<string, unknown>;
-  const cells = EXPORT_HEADERS.map((header) => `<td>${String(record[header] ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</td>`).join('');
-  const headers = EXPORT_HEADERS.map((header) => `<th>${header}</th>`).join('');
-  const html = `\uFEFF<html><head><meta charset="UTF-8"></head><body><table><thead><tr>${headers}</tr></thead><tbody><tr>${cells}</tr></tbody></table></body></html>`;
-  downloadTextFile(html, `OHCA-${data.basicInfo.caseId || 'record'}-Ver6.xls`, 'application/vnd.ms-excel;charset=utf-8');
+const buildExcelHtml = (headers: string[], records: Array<Record<string, unknown>>) => {
+  const head = headers.map((header) => `<th>${header}</th>`).join('');
+  const body = records
+    .map((record) => `<tr>${headers.map((header) => `<td>${escapeHtml(record[header])}</td>`).join('')}</tr>`)
+    .join('');
+  return `\uFEFF<html><head><meta charset="UTF-8"></head><body><table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table></body></html>`;
+};
+
+export const exportRecordCsv = (data: AppState, thresholds: MetricThresholds) => {
+  const record = buildOrderedRecord(data, thresholds) as Record<string, unknown>;
+  downloadTextFile(buildCsv(EXPORT_HEADERS, [record]), `OHCA-${data.basicInfo.caseId || 'record'}-Ver6.csv`, 'text/csv;charset=utf-8');
+};
+
+export const exportRecordExcel = (data: AppState, thresholds: MetricThresholds) => {
+  const record = buildOrderedRecord(data, thresholds) as Record<string, unknown>;
+  downloadTextFile(buildExcelHtml(EXPORT_HEADERS, [record]), `OHCA-${data.basicInfo.caseId || 'record'}-Ver6.xls`, 'application/vnd.ms-excel;charset=utf-8');
+};
+
+// --- Batch export (one row per case) ---
+
+export const BATCH_ISSUE_HEADER = '驗證問題';
+
+export type BatchInvalidMode = 'skip' | 'flag';
+
+export interface BatchExportItem {
+  id: string;
+  state: AppState;
+}
+
+export interface BatchExportIssue {
+  id: string;
+  caseId: string;
+  problems: string[];
+  skipped: boolean;
+}
+
+export interface BatchExportResult {
+  exportedCount: number;
+  issues: BatchExportIssue[];
+}
+
+// Invalid cases are either left out ('skip') or exported with their problems in an extra column ('flag')
+export const buildBatchRecords = (items: BatchExportItem[], invalidMode: BatchInvalidMode, thresholds: MetricThresholds) => {
+  const records: Array<Record<string, unknown>> = [];
+  const issues: BatchExportIssue[] = [];
+
+  items.forEach(({ id, state }) => {
+    const { missingFields, logicErrors, isValid } = validateRecord(state);
+    const problems = [...missingFields, ...logicErrors].map(problem => problem.message);
+    if (!isValid) {
+      issues.push({ id, caseId: state.basicInfo.caseId, problems, skipped: invalidMode === 'skip' });
+      if (invalidMode === 'skip') return;
+    }
+
+    const record = buildOrderedRecord(state, thresholds) as Record<string, unknown>;
+    if (invalidMode === 'flag') record[BATCH_ISSUE_HEADER] = problems.join('；');
+    records.push(record);
+  });
+
+  const headers = invalidMode === 'flag' ? [...EXPORT_HEADERS, BATCH_ISSUE_HEADER] : EXPORT_HEADERS;
+  return { headers, records, issues };
+};
+
+// Dated today in the deployment time zone, like the case dates, whatever the device's zone
+const batchFileName = (extension: string) =>
+  `OHCA-batch-${caseToday(DEFAULT_TIME_ZONE).replace(/-/g, '')}-Ver6.${extension}`;
+
+export const exportRecordsCsv = (items: BatchExportItem[], invalidMode: BatchInvalidMode, thresholds: MetricThresholds): BatchExportResult => {
+  const { headers, records, issues } = buildBatchRecords(items, invalidMode, thresholds);
+  if (records.length > 0) {
+    downloadTextFile(buildCsv(headers, records), batchFileName('csv'), 'text/csv;charset=utf-8');
+  }
+  return { exportedCount: records.length, issues };
+};
+
+export const exportRecordsExcel = (items: BatchExportItem[], invalidMode: BatchInvalidMode, thresholds: MetricThresholds): BatchExportResult => {
+  const { headers, records, issues } = buildBatchRecords(items, invalidMode, thresholds);
+  if (records.length > 0) {
+    downloadTextFile(buildExcelHtml(headers, records), batchFileName('xls'), 'application/vnd.ms-excel;charset=utf-8');
+  }
+  return { exportedCount: records.length, issues };
 };
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { AppState, INITIAL_STATE } from '../types';
+import { BATCH_ISSUE_HEADER, EXPORT_HEADERS, buildBatchRecords, buildCsv, buildOrderedRecord } from './recordExport';
+import { importRecordsCsv } from './recordImport';
+import { DEFAULT_THRESHOLDS } from './scoring';
+
+const DAY = '2024-03-01';
+
+// The CSV a batch export writes; 'flag' keeps cases that are still incomplete
+const exportCsv = (...states: AppState[]) => {
+  const { headers, records } = buildBatchRecords(states.map((state, i) => ({ id: String(i), state })), 'flag', DEFAULT_THRESHOLDS);
+  return buildCsv(headers, records);
+};
+
+const notPerformedCase = (): AppState => {
+  const data: AppState = JSON.parse(JSON.stringify(INITIAL_STATE));
+  data.basicInfo = { ...data.basicInfo, reviewer: '王小明', caseId: '202403010001-1-1', date: DAY };
+  data.timeRecords.ohcaJudgment.emt1 = `${DAY}T10:00:00`;
+  data.timeRecords.cprStart.emt1 = `${DAY}T10:00:20`;
+  data.timeRecords.firstVentilation.emt1 = 'N/A';
+  data.timeRecords.mcprSetup.emt1 = 'N/A';
+  data.timeRecords.airway.emt1 = 'N/A';
+  data.timeRecords.padsOn = `${DAY}T10:01:00`;
+  data.timeRecords.aedOff = `${DAY}T10:20:00`;
+  data.technicalInfo.checkPulse = 'Yes';
+  data.feedbackPatchInfo.manualDepthBeforeMcpr = '5.2';
+  return data;
+};
+
+describe('importRecordsCsv', () => {
+  it('imports a batch export back into the same records', () => {
+    const original = notPerformedCase();
+    const [imported] = importRecordsCsv(exportCsv(original)).cases;
+
+    expect(imported.warnings).toEqual([]);
+    expect(imported.state.timeRecords.firstVentilation.emt1).toBe('N/A');
+    expect(imported.state.timeRecords.mcprSetup.emt1).toBe('N/A');
+    expect(imported.state.timeRecords.airway.emt1).toBe('N/A');
+    expect(imported.state.timeRecords.cprStart.emt1).toBe(`${DAY}T10:00:20`);
+    expect(imported.state.basicInfo).toMatchObject({ reviewer: '王小明', caseId: '202403010001-1-1', date: DAY });
+
+    // Exporting the imported case again gives the same row
+    expect(buildOrderedRecord(imported.state)).toEqual(buildOrderedRecord(original));
+  });
+
+  it('takes MCPR as not used from the metric column of older exports', () => {
+    const csv = exportCsv(notPerformedCase()).replace(/"N\/A"/g, '""');
+    const [imported] = importRecordsCsv(csv).cases;
+
+    expect(imported.state.timeRecords.mcprSetup.emt1).toBe('N/A');
+    expect(imported.state.timeRecords.firstVentilation.emt1).toBe('');
+  });
+
+  it('reports the columns it cannot restore, including unknown ones', () => {
+    const { headers, records } = buildBatchRecords([{ id: '0', state: notPerformedCase() }], 'flag', DEFAULT_THRESHOLDS);
+    const csv = buildCsv([...headers, '備註'], records.map(record => ({ ...record, '備註': '補登' })));
+    const { cases, unmappedColumns } = importRecordsCsv(csv);
+
+    expect(cases).toHaveLength(1);
+    expect(unmappedColumns).toContain('備註');
+    expect(unmappedColumns).toContain(BATCH_ISSUE_HEADER);
+    expect(unmappedColumns).toContain('QC Score');
+    expect(unmappedColumns).not.toContain('Pads On (Adj)');
+    expect(unmappedColumns.every(column => [...EXPORT_HEADERS, BATCH_ISSUE_HEADER, '備註'].includes(column))).toBe(true);
+  });
+});
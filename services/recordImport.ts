@@ -0,0 +1,201 @@
+import { AppState, EmtTimeField, FeedbackPatchInfo, TechnicalInfo, TimeRecord } from '../types';
+import { createBlankState } from './caseLibrary';
+
+// Parse CSV text as written by exportRecordCsv: optional BOM, quoted cells with "" escapes, CRLF or LF rows
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (source[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Ignore blank lines (e.g. a trailing newline)
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+// Export columns holding corrected times. They are restored into EMT1 (or the direct AED field)
+// with an empty calibration, so the zero offset reproduces the exported time exactly.
+const TIME_COLUMNS: Record<string, keyof TimeRecord> = {
+  '接觸患者 (Adj)': 'contact',
+  'OHCA Judge (Adj)': 'ohcaJudgment',
+  'CPR Start (Adj)': 'cprStart',
+  'Ventilation (Adj)': 'firstVentilation',
+  'First Med (Adj)': 'firstMed',
+  'MCPR Setup (Adj)': 'mcprSetup',
+  'Pads On (Adj)': 'padsOn',
+  '首次電擊 (免校正)': 'firstShock',
+  'AED Off (Adj)': 'aedOff',
+  'Airway (Adj)': 'airway',
+};
+
+// Text answers of 處置認列; Endo Attempts is read as a number separately
+type TechnicalTextField = { [K in keyof TechnicalInfo]: TechnicalInfo[K] extends string ? K : never }[keyof TechnicalInfo];
+
+const TECHNICAL_COLUMNS: Record<string, TechnicalTextField> = {
+  'Check Pulse': 'checkPulse',
+  'Compressor Used': 'useCompressor',
+  'Initial Rhythm': 'initialRhythm',
+  'AED初始心律首次電擊之後的心律': 'postShockRhythm',
+  'Airway Device': 'airwayDevice',
+  '建立呼吸道中斷(秒)': 'airwayInterruptionSeconds',
+  '到院前啟動ECMO(3-19)': 'prehospitalEcmo',
+  'AED貼片位置是否正確': 'aedPadCorrect',
+};
+
+const FEEDBACK_COLUMNS: Record<string, keyof FeedbackPatchInfo> = {
+  '架設MCPR前平均徒手按壓深度(cm)': 'manualDepthBeforeMcpr',
+  '架設MCPR前平均徒手按壓速率(cpm)': 'manualRateBeforeMcpr',
+  '架設MCPR前平均徒手釋放速度(mm/s)': 'manualReleaseVelocityBeforeMcpr',
+  '目標中 - 徒手深度(%)': 'targetManualDepthPercent',
+  '目標中 - 徒手速率(%)': 'targetManualRatePercent',
+  '目標中 - 徒手按壓(%)': 'targetManualCompressionPercent',
+  '去顫前停滯時間(未電擊=N/A)': 'preShockPauseTime',
+  '去顫後停滯時間(未電擊=N/A)': 'postShockPauseTime',
+};
+
+const OTHER_COLUMNS = ['Reviewer', 'OHCA 發現/通報時機', 'Endo Attempts'];
+
+// Older exports left an N/A MCPR Setup cell empty; this metric column still tells MCPR was not used
+const MCPR_NA_COLUMN = 'Post-MCPR Compression Time';
+const MCPR_NA_MARKER = '未使用 MCPR';
+
+const CASE_ID_PATTERN = /^\d{12}-\d{1}-\d{1}$/;
+
+// "YYYY-MM-DD HH:mm:ss" (export format) -> "YYYY-MM-DDTHH:mm:ss" (DateTimeInput format)
+const toInputTime = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2})(:\d{2})?$/);
+  if (!match) return null;
+  return `${match[1]}T${match[2]}${match[3] || ':00'}`;
+};
+
+const isEmtTimeField = (timeRecords: TimeRecord, key: keyof TimeRecord): key is EmtTimeField =>
+  typeof timeRecords[key] !== 'string';
+
+// Put a restored value into EMT1, or into the field itself for direct AED times
+const setTimeValue = (timeRecords: TimeRecord, key: keyof TimeRecord, value: string) => {
+  if (isEmtTimeField(timeRecords, key)) timeRecords[key] = { ...timeRecords[key], emt1: value };
+  else timeRecords[key] = value;
+};
+
+export interface ImportedCase {
+  row: number; // 1-based row number, the header being row 1
+  state: AppState;
+  warnings: string[];
+}
+
+export interface CsvImportResult {
+  cases: ImportedCase[];
+  unmappedColumns: string[];
+}
+
+const buildState = (record: Record<string, string>, warnings: string[]): AppState => {
+  const state = createBlankState();
+
+  // Reviewer column is "<reviewer>_<caseId>"
+  const reviewerCell = (record['Reviewer'] || '').trim();
+  const separator = reviewerCell.lastIndexOf('_');
+  const caseIdPart = separator >= 0 ? reviewerCell.slice(separator + 1) : reviewerCell;
+  if (CASE_ID_PATTERN.test(caseIdPart)) {
+    state.basicInfo.caseId = caseIdPart;
+    state.basicInfo.reviewer = separator >= 0 ? reviewerCell.slice(0, separator) : '';
+  } else {
+    state.basicInfo.reviewer = reviewerCell;
+  }
+  state.basicInfo.notificationTime = record['OHCA 發現/通報時機'] || '';
+
+  let caseDate = '';
+  Object.entries(TIME_COLUMNS).forEach(([header, key]) => {
+    const cell = (record[header] || '').trim();
+    if (!cell) return;
+    // Steps recorded as not performed, see stepTimeCell in recordExport
+    if (cell === 'N/A' && isEmtTimeField(state.timeRecords, key)) {
+      setTimeValue(state.timeRecords, key, 'N/A');
+      return;
+    }
+    const time = toInputTime(cell);
+    if (!time) {
+      warnings.push(`無法解析時間 [${header}]：${cell}`);
+      return;
+    }
+    if (!caseDate || key === 'ohcaJudgment') caseDate = time.split('T')[0];
+    setTimeValue(state.timeRecords, key, time);
+  });
+  if (caseDate) state.basicInfo.date = caseDate;
+  if ((record[MCPR_NA_COLUMN] || '').trim() === MCPR_NA_MARKER && !state.timeRecords.mcprSetup.emt1) {
+    state.timeRecords.mcprSetup.emt1 = 'N/A';
+  }
+
+  Object.entries(TECHNICAL_COLUMNS).forEach(([header, key]) => {
+    if (record[header] !== undefined) state.technicalInfo[key] = record[header];
+  });
+  const endoAttempts = parseInt(record['Endo Attempts'] || '', 10);
+  state.technicalInfo.endoAttempts = isNaN(endoAttempts) ? 0 : endoAttempts;
+
+  Object.entries(FEEDBACK_COLUMNS).forEach(([header, key]) => {
+    if (record[header] !== undefined) state.feedbackPatchInfo[key] = record[header];
+  });
+
+  return state;
+};
+
+// Rebuild AppStates from an EXPORT_HEADERS CSV, one case per data row.
+// Derived metrics (durations, interruption totals) cannot be restored and are listed as unmapped.
+export const importRecordsCsv = (text: string): CsvImportResult => {
+  const [headerRow, ...dataRows] = parseCsv(text);
+  if (!headerRow) return { cases: [], unmappedColumns: [] };
+
+  const headers = headerRow.map(h => h.trim());
+  const mapped = new Set([
+    ...Object.keys(TIME_COLUMNS),
+    ...Object.keys(TECHNICAL_COLUMNS),
+    ...Object.keys(FEEDBACK_COLUMNS),
+    ...OTHER_COLUMNS,
+  ]);
+  const unmappedColumns = headers.filter(h => h && !mapped.has(h));
+
+  const cases = dataRows.map((cells, index) => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, col) => {
+      record[header] = cells[col] ?? '';
+    });
+    const warnings: string[] = [];
+    if (cells.length !== headers.length) warnings.push(`欄位數 (${cells.length}) 與標題列 (${headers.length}) 不符`);
+    return { row: index + 2, state: buildState(record, warnings), warnings };
+  });
+
+  return { cases, unmappedColumns };
+};
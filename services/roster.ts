@@ -0,0 +1,140 @@
+import { AppState, BasicInfo, RosterShift } from '../types';
+import { parseCsv } from './recordImport';
+import { getMeta, setMeta } from './storage';
+import { parseCaseTime } from './timeUtils';
+
+const ROSTER_KEY = 'roster';
+
+// Duty roster CSV: one row per date/unit/shift, crew in any number of 人員 columns
+const DATE_HEADER = '日期';
+const UNIT_HEADER = '分隊';
+const SHIFT_HEADER = '班別';
+const START_HEADER = '開始';
+const END_HEADER = '結束';
+const MEMBER_HEADER_PREFIX = '人員';
+
+export const MEMBER_FIELDS = ['member1', 'member2', 'member3', 'member4', 'member5', 'member6'] as const;
+
+export interface RosterImportResult {
+  shifts: RosterShift[];
+  problems: string[]; // Rows that were skipped and why
+}
+
+const normalizeDate = (value: string) => {
+  const match = value.trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  return match ? `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}` : '';
+};
+
+const normalizeTime = (value: string) => {
+  const match = value.trim().match(/^(\d{1,2}):?(\d{2})$/);
+  if (!match || Number(match[1]) > 24 || Number(match[2]) > 59) return '';
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+};
+
+// Rosters often write the full unit name (新店分隊), cases use the short one (新店)
+const normalizeUnit = (value: string) => value.trim().replace(/分隊$/, '');
+
+export const rosterShiftKey = (shift: RosterShift) => `${shift.date} ${shift.unit} ${shift.shift}`;
+
+export const parseRosterCsv = (text: string): RosterImportResult => {
+  const rows = parseCsv(text);
+  if (rows.length < 2) throw new Error('班表沒有資料列');
+
+  const headers = rows[0].map(header => header.trim());
+  const required = [DATE_HEADER, UNIT_HEADER, SHIFT_HEADER, START_HEADER, END_HEADER];
+  const missing = required.filter(header => !headers.includes(header));
+  if (missing.length > 0) throw new Error(`班表缺少欄位：${missing.join('、')}`);
+
+  const column = (header: string) => headers.indexOf(header);
+  const memberColumns = headers
+    .map((header, index) => (header.startsWith(MEMBER_HEADER_PREFIX) ? index : -1))
+    .filter(index => index >= 0);
+  if (memberColumns.length === 0) throw new Error(`班表缺少「${MEMBER_HEADER_PREFIX}」欄位`);
+
+  const result: RosterImportResult = { shifts: [], problems: [] };
+  rows.slice(1).forEach((row, i) => {
+    const line = i + 2;
+    const cell = (index: number) => (row[index] || '').trim();
+    const shift: RosterShift = {
+      date: normalizeDate(cell(column(DATE_HEADER))),
+      unit: normalizeUnit(cell(column(UNIT_HEADER))),
+      shift: cell(column(SHIFT_HEADER)),
+      start: normalizeTime(cell(column(START_HEADER))),
+      end: normalizeTime(cell(column(END_HEADER))),
+      members: memberColumns.map(cell).filter(Boolean),
+    };
+
+    if (!shift.date) result.problems.push(`第 ${line} 列：日期格式錯誤`);
+    else if (!shift.unit) result.problems.push(`第 ${line} 列：缺少分隊`);
+    else if (!shift.start || !shift.end) result.problems.push(`第 ${line} 列：開始或結束時間格式錯誤 (HH:MM)`);
+    else if (shift.members.length === 0) result.problems.push(`第 ${line} 列：沒有人員`);
+    else result.shifts.push(shift);
+  });
+  return result;
+};
+
+export const loadRoster = async (): Promise<RosterShift[]> => (await getMeta<RosterShift[]>(ROSTER_KEY)) || [];
+
+// Imported shifts replace stored ones with the same date, unit and shift, so monthly rosters accumulate
+export const mergeRoster = async (shifts: RosterShift[]) => {
+  const merged = new Map((await loadRoster()).map(shift => [rosterShiftKey(shift), shift]));
+  shifts.forEach(shift => merged.set(rosterShiftKey(shift), shift));
+  const roster = Array.from(merged.values()).sort((a, b) => rosterShiftKey(a).localeCompare(rosterShiftKey(b)));
+  await setMeta(ROSTER_KEY, roster);
+  return roster;
+};
+
+// When the crew found the patient: the first EMT time entered for found, contact or OHCA judgment
+export const getIncidentTime = (state: AppState): Date | null => {
+  const { found, contact, ohcaJudgment } = state.timeRecords;
+  for (const record of [found, contact, ohcaJudgment]) {
+    const value = [record.emt1, record.emt2, record.emt3].find(v => v && v !== 'N/A');
+    const time = value ? parseCaseTime(value, state.timeZone) : null;
+    if (time) return time;
+  }
+  return null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const shiftContains = (shift: RosterShift, time: Date, timeZone: string) => {
+  const start = parseCaseTime(`${shift.date}T${shift.start}:00`, timeZone);
+  let end = parseCaseTime(`${shift.date}T${shift.end}:00`, timeZone);
+  if (!start || !end) return false;
+  if (end.getTime() <= start.getTime()) end = new Date(end.getTime() + DAY_MS);
+  return time.getTime() >= start.getTime() && time.getTime() < end.getTime();
+};
+
+// Shifts of the case's unit covering the incident time; empty until date, unit and a time are filled in
+export const findOnDutyShifts = (roster: RosterShift[], state: AppState): RosterShift[] => {
+  const { date, unit } = state.basicInfo;
+  const incidentTime = getIncidentTime(state);
+  if (!date || !unit || !incidentTime) return [];
+  return roster.filter(shift => shift.unit === unit && shiftContains(shift, incidentTime, state.timeZone));
+};
+
+// Fill the crew from a shift (first six members) and start a new override log
+export const applyRosterShift = (state: AppState, shift: RosterShift): AppState => {
+  const members = MEMBER_FIELDS.map((_, i) => shift.members[i] || '');
+  const basicInfo: BasicInfo = { ...state.basicInfo };
+  MEMBER_FIELDS.forEach((field, i) => {
+    basicInfo[field] = members[i];
+  });
+  return {
+    ...state,
+    basicInfo,
+    crewRoster: { shift: rosterShiftKey(shift), appliedAt: new Date().toISOString(), members, overrides: [] },
+  };
+};
+
+// Set a member field; after a roster was applied, a value differing from the roster is logged as an override
+export const setCrewMember = (state: AppState, field: typeof MEMBER_FIELDS[number], value: string): AppState => {
+  const next = { ...state, basicInfo: { ...state.basicInfo, [field]: value } };
+  const log = state.crewRoster;
+  if (!log.shift) return next;
+
+  const rosterValue = log.members[MEMBER_FIELDS.indexOf(field)] || '';
+  const overrides = log.overrides.filter(override => override.field !== field);
+  if (value !== rosterValue) overrides.push({ field, rosterValue, value, changedAt: new Date().toISOString() });
+  return { ...next, crewRoster: { ...log, overrides } };
+};
@@ -0,0 +1,105 @@
+import { AppState, MetricThresholds, ThresholdKey } from '../types';
+import { CaseMetrics, computeCaseMetrics, formatMetric } from './metrics';
+import { patchNumber } from './feedbackPatch';
+
+// Grades the key metrics against the QC targets in AppSettings.thresholds (editable per deployment)
+// and condenses them into one score for the export.
+
+export type Grade = 'pass' | 'warn' | 'fail';
+
+export const GRADE_LABELS: Record<Grade, string> = {
+  pass: '達標',
+  warn: '待加強',
+  fail: '未達標',
+};
+
+export interface ThresholdMetric {
+  label: string;
+  direction: 'max' | 'min'; // max: at most the target, min: at least
+  unit: string;
+}
+
+export const THRESHOLD_METRICS: Record<ThresholdKey, ThresholdMetric> = {
+  cprDelay: { label: '判斷OHCA ⮕ CPR開始', direction: 'max', unit: '秒' },
+  padsDelay: { label: '判斷OHCA ⮕ 貼片貼上', direction: 'max', unit: '秒' },
+  bvmTime: { label: '第一次BVM所需時間', direction: 'max', unit: '秒' },
+  airwayTime: { label: '建立呼吸道時間', direction: 'max', unit: '秒' },
+  medDelay: { label: '給藥速率', direction: 'max', unit: '秒' },
+  ccf: { label: '整體 CCF', direction: 'min', unit: '%' },
+  preShockPause: { label: '去顫前停滯時間', direction: 'max', unit: '秒' },
+};
+
+export const DEFAULT_THRESHOLDS: MetricThresholds = {
+  cprDelay: { pass: 10, warn: 20 },
+  padsDelay: { pass: 60, warn: 90 },
+  bvmTime: { pass: null, warn: null },
+  airwayTime: { pass: null, warn: null },
+  medDelay: { pass: null, warn: null },
+  ccf: { pass: 80, warn: 60 },
+  preShockPause: { pass: 10, warn: 20 },
+};
+
+// null when the metric has no value or no target
+export const gradeValue = (key: ThresholdKey, value: number | null, thresholds: MetricThresholds): Grade | null => {
+  const { pass, warn } = thresholds[key];
+  if (value === null || pass === null) return null;
+  const within = (limit: number) => (THRESHOLD_METRICS[key].direction === 'max' ? value <= limit : value >= limit);
+  if (within(pass)) return 'pass';
+  return warn !== null && within(warn) ? 'warn' : 'fail';
+};
+
+// "≤ 10秒", or "≥ 80%" for CCF; '--' when ungraded
+export const formatTarget = (key: ThresholdKey, thresholds: MetricThresholds) => {
+  const { pass } = thresholds[key];
+  if (pass === null) return '--';
+  const { direction, unit } = THRESHOLD_METRICS[key];
+  return `${direction === 'max' ? '≤' : '≥'} ${pass}${unit}`;
+};
+
+export type ThresholdGrades = Record<ThresholdKey, Grade | null>;
+
+export interface GradedMetric {
+  key: ThresholdKey;
+  label: string;
+  value: string; // As shown in the preview
+  target: string;
+  grade: Grade | null;
+}
+
+export interface CaseScore {
+  metrics: GradedMetric[];
+  score: number | null; // 0–100: pass 1, warn ½, fail 0 over the graded metrics; null when none is graded
+}
+
+export const scoreCase = (data: AppState, thresholds: MetricThresholds, metrics: CaseMetrics = computeCaseMetrics(data)): CaseScore => {
+  const pause = data.feedbackPatchInfo.preShockPauseTime;
+  const graded = (Object.keys(THRESHOLD_METRICS) as ThresholdKey[]).map((key): GradedMetric => {
+    const value = key === 'preShockPause' ? patchNumber(pause) : metrics[key].value;
+    return {
+      key,
+      label: THRESHOLD_METRICS[key].label,
+      value: key === 'preShockPause' ? (pause ? (value === null ? pause : `${value}秒`) : '--') : formatMetric(metrics[key]),
+      target: formatTarget(key, thresholds),
+      grade: gradeValue(key, value, thresholds),
+    };
+  });
+
+  const grades = graded.map(item => item.grade).filter((grade): grade is Grade => grade !== null);
+  const points = grades.reduce((sum, grade) => sum + (grade === 'pass' ? 1 : grade === 'warn' ? 0.5 : 0), 0);
+  return { metrics: graded, score: grades.length > 0 ? Math.round((points / grades.length) * 100) : null };
+};
+
+// Thresholds that cannot be graded consistently; empty when they can be saved
+export const validateThresholds = (thresholds: MetricThresholds): string[] => {
+  const problems: string[] = [];
+  (Object.keys(THRESHOLD_METRICS) as ThresholdKey[]).forEach((key) => {
+    const { pass, warn } = thresholds[key];
+    const { label, direction } = THRESHOLD_METRICS[key];
+    if ((pass !== null && pass < 0) || (warn !== null && warn < 0)) problems.push(`${label}：目標不可為負數`);
+    if (pass === null && warn !== null) problems.push(`${label}：設定警示值前請先設定達標值`);
+    if (pass !== null && warn !== null && (direction === 'max' ? warn < pass : warn > pass)) {
+      problems.push(`${label}：警示值應比達標值${direction === 'max' ? '寬鬆 (較大)' : '寬鬆 (較小)'}`);
+    }
+  });
+  return problems;
+};
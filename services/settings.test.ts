@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_THRESHOLDS } from './scoring';
+import { SETTINGS_FILE_FORMAT, parseSettingsFile } from './settings';
+
+const SCRIPT_URL = 'https://script.google.com/macros/s/abc/exec';
+
+const settingsFile = (fields: Record<string, unknown>) =>
+  JSON.stringify({ format: SETTINGS_FILE_FORMAT, version: 1, scriptUrl: SCRIPT_URL, ...fields });
+
+describe('parseSettingsFile', () => {
+  it('keeps the current targets for those the file leaves out', () => {
+    const current = { ...DEFAULT_THRESHOLDS, cprDelay: { pass: 5, warn: 15 } };
+    const settings = parseSettingsFile(settingsFile({ thresholds: { ccf: { pass: 90, warn: 'x' } } }), current);
+
+    expect(settings.thresholds.cprDelay).toEqual({ pass: 5, warn: 15 });
+    expect(settings.thresholds.ccf).toEqual({ pass: 90, warn: null });
+  });
+
+  it('drops malformed endpoints and trims the rest', () => {
+    const settings = parseSettingsFile(
+      settingsFile({ additionalEndpoints: [null, 'https://x', { url: 42 }, { name: ' 備份 ', url: ` ${SCRIPT_URL} ` }] }),
+      DEFAULT_THRESHOLDS
+    );
+    expect(settings.additionalEndpoints).toEqual([{ name: '備份', url: SCRIPT_URL }]);
+  });
+
+  it('rejects files that are not OHCA settings or are newer than the app', () => {
+    expect(() => parseSettingsFile('[]', DEFAULT_THRESHOLDS)).toThrow('檔案不是 OHCA 設定檔');
+    expect(() => parseSettingsFile('{', DEFAULT_THRESHOLDS)).toThrow('設定檔不是有效的 JSON');
+    expect(() => parseSettingsFile(settingsFile({ version: 2 }), DEFAULT_THRESHOLDS)).toThrow('設定檔版本較新');
+  });
+});
@@ -0,0 +1,116 @@
+import { AppSettings, MetricThresholds, SubmissionEndpoint, ThresholdKey } from '../types';
+import { getMeta, setMeta } from './storage';
+import { DEFAULT_THRESHOLDS, validateThresholds } from './scoring';
+
+const SETTINGS_KEY = 'settings';
+
+// Config files produced by setup.html
+export const SETTINGS_FILE_FORMAT = 'ohca-settings';
+export const SETTINGS_FILE_VERSION = 1;
+
+// The original deployment, used until a battalion configures its own
+export const DEFAULT_SETTINGS: AppSettings = {
+  scriptUrl: 'https://script.google.com/macros/s/AKfycbwR3F9FXos_LTuUoRhkDFLhmRdPNEvFC4NmefJdNrnfBDQodxX3DFH-rtqS16PM0vdDeg/exec',
+  sheetUrl: 'https://docs.google.com/spreadsheets/d/1DxjxcX5eklxkuXsQwRphw1z_eT8AOgD9OJavBCpjfcM/edit?gid=0#gid=0',
+  additionalEndpoints: [],
+  thresholds: DEFAULT_THRESHOLDS,
+};
+
+export const isHttpsUrl = (value: string) => {
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch (e) {
+    return false;
+  }
+};
+
+// Upload endpoints may also be a local server (scripts/mock-apps-script.mjs) for testing
+export const isSubmissionUrl = (value: string) => {
+  if (isHttpsUrl(value)) return true;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' && ['localhost', '127.0.0.1'].includes(url.hostname);
+  } catch (e) {
+    return false;
+  }
+};
+
+// Returns the problems found, empty when the settings can be saved
+export const validateSettings = (settings: AppSettings): string[] => {
+  const problems: string[] = [];
+  if (!settings.scriptUrl) problems.push('請輸入上傳網址 (Apps Script)');
+  else if (!isSubmissionUrl(settings.scriptUrl)) problems.push('上傳網址須為 https:// 開頭');
+  if (settings.sheetUrl && !isHttpsUrl(settings.sheetUrl)) problems.push('試算表連結須為 https:// 開頭');
+  settings.additionalEndpoints.forEach((endpoint, i) => {
+    if (!isSubmissionUrl(endpoint.url)) problems.push(`其他上傳網址 ${i + 1} 須為 https:// 開頭`);
+  });
+  return [...problems, ...validateThresholds(settings.thresholds)];
+};
+
+// Stored settings and config files are checked field by field before use
+type RawRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): RawRecord =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as RawRecord) : {};
+
+const trimmedText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const toLimit = (value: unknown): number | null => (typeof value === 'number' && isFinite(value) ? value : null);
+
+// Targets missing from stored settings or a config file keep `base`, the defaults unless given
+const normalizeThresholds = (raw: unknown, base: MetricThresholds = DEFAULT_THRESHOLDS): MetricThresholds => {
+  const stored = asRecord(raw);
+  const thresholds = { ...base };
+  (Object.keys(DEFAULT_THRESHOLDS) as ThresholdKey[]).forEach((key) => {
+    const entry = stored[key];
+    if (entry && typeof entry === 'object') {
+      const { pass, warn } = asRecord(entry);
+      thresholds[key] = { pass: toLimit(pass), warn: toLimit(warn) };
+    }
+  });
+  return thresholds;
+};
+
+const normalizeEndpoints = (raw: unknown): SubmissionEndpoint[] =>
+  Array.isArray(raw)
+    ? raw
+        .map(asRecord)
+        .filter(endpoint => trimmedText(endpoint.url))
+        .map(endpoint => ({ name: trimmedText(endpoint.name), url: trimmedText(endpoint.url) }))
+    : [];
+
+const normalizeSettings = (raw: unknown, baseThresholds?: MetricThresholds): AppSettings => {
+  const stored = asRecord(raw);
+  return {
+    scriptUrl: trimmedText(stored.scriptUrl),
+    sheetUrl: trimmedText(stored.sheetUrl),
+    additionalEndpoints: normalizeEndpoints(stored.additionalEndpoints),
+    thresholds: normalizeThresholds(stored.thresholds, baseThresholds),
+  };
+};
+
+export const loadSettings = async (): Promise<AppSettings> => {
+  const stored = await getMeta<AppSettings>(SETTINGS_KEY);
+  return stored ? normalizeSettings(stored) : DEFAULT_SETTINGS;
+};
+
+export const saveSettings = (settings: AppSettings) => setMeta(SETTINGS_KEY, normalizeSettings(settings));
+
+// Parse a config file from setup.html. Files from setup.html carry no targets, so the
+// current ones are kept for any the file leaves out.
+export const parseSettingsFile = (text: string, currentThresholds: MetricThresholds): AppSettings => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error('設定檔不是有效的 JSON');
+  }
+  const file = asRecord(parsed);
+  if (file.format !== SETTINGS_FILE_FORMAT) throw new Error('檔案不是 OHCA 設定檔');
+  if (typeof file.version === 'number' && file.version > SETTINGS_FILE_VERSION) throw new Error('設定檔版本較新，請先更新系統');
+
+  const settings = normalizeSettings(file, currentThresholds);
+  const problems = validateSettings(settings);
+  if (problems.length > 0) throw new Error(problems.join('\n'));
+  return settings;
+};
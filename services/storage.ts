@@ -0,0 +1,115 @@
+import { AppState, OutboxEntry, SubmissionReceipt } from '../types';
+
+const DB_NAME = 'ohca-quality-control';
+const DB_VERSION = 2;
+const CASE_STORE = 'cases';
+const META_STORE = 'meta';
+const OUTBOX_STORE = 'outbox'; // Added in DB version 2
+
+export interface StoredCase {
+  id: string;
+  schemaVersion: number; // AppState shape version, see services/migrations.ts
+  archived: boolean;
+  updatedAt: string; // ISO string
+  state: AppState;
+  receipts?: SubmissionReceipt[]; // Backend acknowledgements for submissions of this case
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CASE_STORE)) db.createObjectStore(CASE_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let another tab running a newer version upgrade the database
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const result = requestToPromise(run(tx.objectStore(storeName)));
+  await transactionDone(tx);
+  return result;
+};
+
+export const getAllCases = () => withStore<StoredCase[]>(CASE_STORE, 'readonly', store => store.getAll());
+
+export const getCase = async (id: string): Promise<StoredCase | null> =>
+  (await withStore<StoredCase | undefined>(CASE_STORE, 'readonly', store => store.get(id))) || null;
+
+export const putCase = async (record: StoredCase) => {
+  await withStore(CASE_STORE, 'readwrite', store => store.put(record));
+};
+
+// Read and write a case in one transaction, so that concurrent updates (autosave, receipts) are not lost.
+// Returning null leaves the case unchanged.
+export const updateCase = async (id: string, update: (record: StoredCase | null) => StoredCase | null) => {
+  const db = await openDb();
+  const tx = db.transaction(CASE_STORE, 'readwrite');
+  const store = tx.objectStore(CASE_STORE);
+  const request = store.get(id);
+  request.onsuccess = () => {
+    const next = update(request.result || null);
+    if (next) store.put(next);
+  };
+  await transactionDone(tx);
+};
+
+export const removeCase = async (id: string) => {
+  await withStore(CASE_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const getMeta = async <T>(key: string): Promise<T | null> =>
+  ((await withStore<T | undefined>(META_STORE, 'readonly', store => store.get(key))) ?? null);
+
+export const setMeta = async (key: string, value: unknown) => {
+  await withStore(META_STORE, 'readwrite', store => store.put(value, key));
+};
+
+export const getAllOutbox = () => withStore<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+
+export const putOutbox = async (entry: OutboxEntry) => {
+  await withStore(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+};
+
+export const removeOutbox = async (id: string) => {
+  await withStore(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+};
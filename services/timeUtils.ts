@@ -1,25 +1,187 @@
+import { AppState, EmtKey, EmtTimes, INITIAL_STATE, InterruptionTimeBase, PersonnelCalibration, TimeCalibration, TimeRecord } from '../types';
 
-import { TimeCalibration, TimeRecord } from '../types';
+// Times are entered as naive `YYYY-MM-DDTHH:mm:ss` wall-clock strings. They are read in the
+// case's time zone (AppState.timeZone), never the device's, so every reviewer gets the same results.
+export const DEFAULT_TIME_ZONE = INITIAL_STATE.timeZone;
 
-export const getOffsetMs = (keyTime: string, aedTime: string): number => {
-  if (!keyTime || !aedTime) return 0;
-  return new Date(keyTime).getTime() - new Date(aedTime).getTime();
+const NAIVE_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?/;
+const HAS_ZONE = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Wall-clock fields of an instant in the given zone
+const zonedParts = (d: Date, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(d).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return parts as Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number>;
+};
+
+const zoneOffsetMs = (d: Date, timeZone: string) => {
+  const p = zonedParts(d, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(d.getTime() / 1000) * 1000;
+};
+
+// Instant of a naive wall-clock string in the case time zone. Strings carrying Z or an offset are taken as is.
+export const parseCaseTime = (value: string, timeZone: string): Date | null => {
+  if (!value || value === 'N/A') return null;
+  if (HAS_ZONE.test(value)) {
+    const d = new Date(value);
+    return isNaN(d.getTime()) ? null : d;
+  }
+  const m = value.match(NAIVE_TIME);
+  if (!m) return null;
+  const wall = Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +(m[6] || 0));
+  // The offset is looked up twice so a wall time next to a DST change lands on the right side
+  const guess = wall - zoneOffsetMs(new Date(wall), timeZone);
+  return new Date(wall - zoneOffsetMs(new Date(guess), timeZone));
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Naive `YYYY-MM-DDTHH:mm:ss` of an instant in the case time zone, the format DateTimeInput stores
+export const toCaseIso = (d: Date, timeZone: string) => {
+  const p = zonedParts(d, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`;
+};
+
+const CLOCK_DIGITS = /^(\d{2})?(\d{2})(\d{2})$/; // HHMMSS or MMSS
+const CLOCK_COLONS = /^(?:(\d+):)?(\d+):(\d{2})$/; // H:MM:SS or M:SS with any number of minutes
+
+// Seconds of an interruption time: "MMSS", "HHMMSS", "M:SS" or "H:MM:SS"; null when unreadable
+export const parseClockSeconds = (value: string): number | null => {
+  const text = value.trim();
+  const m = text.match(CLOCK_DIGITS) || text.match(CLOCK_COLONS);
+  if (!m) return null;
+  const hours = Number(m[1] || 0);
+  const minutes = Number(m[2]);
+  const seconds = Number(m[3]);
+  if (seconds > 59 || (m[1] !== undefined && minutes > 59)) return null;
+  return hours * 3600 + minutes * 60 + seconds;
+};
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):?([0-5]\d):?([0-5]\d)$/; // HHMMSS or HH:MM:SS
+
+// Seconds since midnight of a clock reading "HHMMSS" or "HH:MM:SS"; null for any other input,
+// so "1430" or "14:30" is not taken for minutes and seconds
+export const parseTimeOfDaySeconds = (value: string): number | null => {
+  const text = value.trim();
+  const m = text.match(TIME_OF_DAY);
+  if (!m || text.split(':').length === 2) return null;
+  return Number(m[1]) * 3600 + Number(m[2]) * 60 + Number(m[3]);
+};
+
+// Seconds of an interruption entry in its time base: video offsets as parseClockSeconds, AED clock
+// times only as HHMMSS or HH:MM:SS; null when the entry does not match the base
+export const parseInterruptionSeconds = (value: string, kind: InterruptionTimeBase['kind']) =>
+  kind === 'aedClock' ? parseTimeOfDaySeconds(value) : parseClockSeconds(value);
+
+// Seconds as "HH:MM:SS"
+export const formatClock = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${pad(Math.floor(whole / 3600))}:${pad(Math.floor(whole / 60) % 60)}:${pad(whole % 60)}`;
+};
+
+// Today's date in the case time zone
+export const caseToday = (timeZone: string = DEFAULT_TIME_ZONE) => toCaseIso(new Date(), timeZone).split('T')[0];
+
+export const getOffsetMs = (keyTime: string, aedTime: string, timeZone: string): number => {
+  const key = parseCaseTime(keyTime, timeZone);
+  const aed = parseCaseTime(aedTime, timeZone);
+  if (!key || !aed) return 0;
+  return key.getTime() - aed.getTime();
+};
+
+// Device clock against the AED clock: offset(t) = offsetMs + drift × (t - referenceMs), t on the device clock.
+// Adjusted AED Time = EMT_Entry_Time - offset(EMT_Entry_Time)
+export interface ClockModel {
+  referenceMs: number; // Mean device time of the pairs
+  offsetMs: number; // Device minus AED at referenceMs
+  drift: number; // Change of the offset per unit of device time (ms per ms)
+  pairCount: number;
+}
+
+const completePairs = (pairs: TimeCalibration[], timeZone: string) =>
+  pairs.flatMap((pair) => {
+    const key = parseCaseTime(pair.keyTime, timeZone);
+    const aed = parseCaseTime(pair.aedTime, timeZone);
+    return key && aed ? [{ x: key.getTime(), y: key.getTime() - aed.getTime() }] : [];
+  });
+
+// Least-squares offset-plus-drift fit over the complete pairs; null when there is none.
+// With a single pair, or pairs all at the same device time, the drift is 0.
+export const fitClockModel = (pairs: TimeCalibration[], timeZone: string): ClockModel | null => {
+  const points = completePairs(pairs, timeZone);
+  if (points.length === 0) return null;
+  const referenceMs = points.reduce((acc, p) => acc + p.x, 0) / points.length;
+  const offsetMs = points.reduce((acc, p) => acc + p.y, 0) / points.length;
+  const spread = points.reduce((acc, p) => acc + (p.x - referenceMs) ** 2, 0);
+  const drift = spread > 0
+    ? points.reduce((acc, p) => acc + (p.x - referenceMs) * (p.y - offsetMs), 0) / spread
+    : 0;
+  return { referenceMs, offsetMs, drift, pairCount: points.length };
+};
+
+export const clockOffsetAt = (model: ClockModel | null, deviceMs: number) =>
+  model ? model.offsetMs + model.drift * (deviceMs - model.referenceMs) : 0;
+
+// Seconds each pair's offset differs from the fitted model; null for incomplete pairs
+export const getPairResiduals = (pairs: TimeCalibration[], timeZone: string): (number | null)[] => {
+  const model = fitClockModel(pairs, timeZone);
+  return pairs.map((pair) => {
+    const [point] = completePairs([pair], timeZone);
+    return point && model ? (point.y - clockOffsetAt(model, point.x)) / 1000 : null;
+  });
 };
 
-export const formatTimeDisplay = (dateStr: string): string => {
+// Entered device time corrected to the AED clock
+export const correctToAed = (entered: Date, pairs: TimeCalibration[], timeZone: string) =>
+  new Date(entered.getTime() - clockOffsetAt(fitClockModel(pairs, timeZone), entered.getTime()));
+
+export const formatTimeDisplay = (dateStr: string, timeZone: string): string => {
   if (!dateStr || dateStr === 'N/A') return '--:--:--';
-  const d = new Date(dateStr);
-  if (isNaN(d.getTime())) return '--:--:--';
-  return d.toTimeString().split(' ')[0];
+  const d = parseCaseTime(dateStr, timeZone);
+  if (!d) return '--:--:--';
+  return toCaseIso(d, timeZone).split('T')[1];
 };
 
-export const calculateTimeDiffSeconds = (start: string, end: string): number => {
+export const calculateTimeDiffSeconds = (start: string, end: string, timeZone: string): number => {
   if (!start || !end) return 0;
   
   // Check if ISO Date (contains 'T' like YYYY-MM-DDTHH:mm:ss)
   if (start.includes('T') && end.includes('T')) {
-      const diff = new Date(end).getTime() - new Date(start).getTime();
-      return diff / 1000;
+      const startTime = parseCaseTime(start, timeZone);
+      const endTime = parseCaseTime(end, timeZone);
+      if (!startTime || !endTime) return 0;
+      return (endTime.getTime() - startTime.getTime()) / 1000;
   }
   
   // Assume HH:MM:SS
@@ -37,37 +199,53 @@ export const calculateTimeDiffSeconds = (start: string, end: string): number =>
   return diff;
 };
 
+export const EMT_KEYS: EmtKey[] = ['emt1', 'emt2', 'emt3'];
+
+export const isCalibrated = (calibration: PersonnelCalibration, emt: EmtKey) =>
+  calibration[emt].some(pair => pair.keyTime && pair.aedTime);
+
+// Corrected AED time of every filled in EMT entry of a field, in EMT order. N/A counts as empty.
+export const getCorrectedEmtTimes = (
+  recordData: EmtTimes,
+  calibration: PersonnelCalibration,
+  timeZone: string
+): { emt: EmtKey; time: Date }[] =>
+  EMT_KEYS.flatMap((emt) => {
+    const entered = parseCaseTime(recordData[emt], timeZone);
+    if (!entered) return [];
+    return [{ emt, time: correctToAed(entered, calibration[emt], timeZone) }];
+  });
+
+// Seconds between the earliest and latest corrected EMT entry; null with fewer than two entries
+export const getEmtSpreadSeconds = (recordData: EmtTimes, calibration: PersonnelCalibration, timeZone: string) => {
+  const times = getCorrectedEmtTimes(recordData, calibration, timeZone).map(entry => entry.time.getTime());
+  if (times.length < 2) return null;
+  return (Math.max(...times) - Math.min(...times)) / 1000;
+};
+
 export const calculateCorrectedAedTime = (
   recordKey: keyof TimeRecord,
   recordData: any,
-  calibration: any
+  calibration: PersonnelCalibration,
+  timeZone: string,
+  timeSources?: AppState['timeSources']
 ): Date | null => {
   // Direct AED time fields
   if (typeof recordData === 'string') {
-    if (recordData === 'N/A') return null; // Handle N/A
-    return recordData ? new Date(recordData) : null;
+    return parseCaseTime(recordData, timeZone); // N/A and empty give null
   }
 
   // Fields with EMT1/2/3
-  const emt1 = recordData.emt1;
-  const emt2 = recordData.emt2;
-  const emt3 = recordData.emt3;
+  const source = (timeSources && (timeSources as Record<string, string>)[recordKey]) || 'auto';
+  const entries = getCorrectedEmtTimes(recordData, calibration, timeZone);
 
-  // Handle N/A as empty so priority falls through correctly
-  const emt1Time = (emt1 && emt1 !== 'N/A') ? new Date(emt1).getTime() : null;
-  const emt2Time = (emt2 && emt2 !== 'N/A') ? new Date(emt2).getTime() : null;
-  const emt3Time = (emt3 && emt3 !== 'N/A') ? new Date(emt3).getTime() : null;
-
-  const offset1 = getOffsetMs(calibration.emt1.keyTime, calibration.emt1.aedTime);
-  const offset2 = getOffsetMs(calibration.emt2.keyTime, calibration.emt2.aedTime);
-  const offset3 = getOffsetMs(calibration.emt3.keyTime, calibration.emt3.aedTime);
-
-  // Priority: EMT1 -> EMT2 -> EMT3
-  // Formula: Adjusted AED Time = EMT_Entry_Time - Offset
-  
-  if (emt1Time) return new Date(emt1Time - offset1);
-  if (emt2Time) return new Date(emt2Time - offset2);
-  if (emt3Time) return new Date(emt3Time - offset3);
-
-  return null;
+  if (source === 'average') {
+    const calibrated = entries.filter(entry => isCalibrated(calibration, entry.emt));
+    if (calibrated.length === 0) return null;
+    const sum = calibrated.reduce((acc, entry) => acc + entry.time.getTime(), 0);
+    return new Date(Math.round(sum / calibrated.length));
+  }
+  // A chosen EMT is authoritative: without its entry the time is missing rather than taken from another EMT
+  if (source !== 'auto') return entries.find(entry => entry.emt === source)?.time ?? null;
+  return entries[0]?.time ?? null;
 };
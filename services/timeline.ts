@@ -0,0 +1,187 @@
+import { AppState, InterruptionRecords } from '../types';
+import { INTERRUPTION_REASONS } from '../constants';
+import { CorrectedTimes, getCorrectedTimes, interruptionItemSeconds } from './metrics';
+import { createInterruptionClock, isBlankInterruption } from './interruptions';
+import { toCaseIso } from './timeUtils';
+
+// Resuscitation timeline: corrected TimeRecord events and interruptions on one AED clock axis.
+// Rendered as a standalone SVG string so the same chart is shown in the preview, printed,
+// downloaded and pasted with the copied summary.
+
+export interface TimelineEvent {
+  key: keyof CorrectedTimes;
+  label: string;
+  time: Date;
+}
+
+export interface TimelineBar {
+  section: keyof InterruptionRecords;
+  index: number;
+  reason: string;
+  start: Date;
+  end: Date;
+  seconds: number;
+}
+
+export interface Timeline {
+  start: Date;
+  end: Date;
+  events: TimelineEvent[];
+  bars: TimelineBar[];
+  unplaced: number; // Interruptions with times the time base cannot place yet
+}
+
+// Chart order for events at the same instant
+const EVENT_LABELS: [keyof CorrectedTimes, string][] = [
+  ['found', '發現患者'],
+  ['contact', '接觸患者'],
+  ['ohca', '判斷OHCA'],
+  ['cpr', 'CPR開始'],
+  ['aedOn', 'Power ON'],
+  ['pads', '貼上貼片'],
+  ['firstShock', '首次電擊'],
+  ['vent', '第一次給氣'],
+  ['airway', '呼吸道建立'],
+  ['med', '第一次給藥'],
+  ['mcpr', 'MCPR架設'],
+  ['rosc', 'ROSC'],
+  ['aedOff', 'AED關機'],
+];
+
+// One colour per entry of INTERRUPTION_REASONS, in order; entries without a reason are grey
+const REASON_COLORS = [
+  '#2563eb', '#0891b2', '#f59e0b', '#d97706', '#7c3aed', '#a855f7', '#dc2626',
+  '#16a34a', '#0d9488', '#db2777', '#64748b', '#78716c', '#65a30d',
+];
+const NO_REASON_COLOR = '#cbd5e1';
+
+export const reasonColor = (reason: string) => {
+  const index = INTERRUPTION_REASONS.indexOf(reason);
+  return index >= 0 ? REASON_COLORS[index % REASON_COLORS.length] : NO_REASON_COLOR;
+};
+
+// null when no event time is known yet
+export const buildTimeline = (data: AppState, times: CorrectedTimes = getCorrectedTimes(data)): Timeline | null => {
+  const events: TimelineEvent[] = EVENT_LABELS
+    .filter(([key]) => times[key])
+    .map(([key, label]) => ({ key, label, time: times[key] as Date }))
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+  if (events.length === 0) return null;
+
+  const toTime = createInterruptionClock(data);
+  const bars: TimelineBar[] = [];
+  let unplaced = 0;
+  (['beforePads', 'beforeMcpr'] as const).forEach((section) => {
+    data.interruptionRecords[section].forEach((item, index) => {
+      if (isBlankInterruption(item)) return;
+      const seconds = interruptionItemSeconds(item, data.interruptionTimeBase.kind);
+      const start = toTime(item.start);
+      if (!start || seconds === 0) {
+        unplaced += 1;
+        return;
+      }
+      bars.push({ section, index, reason: item.reason, start, end: new Date(start.getTime() + seconds * 1000), seconds });
+    });
+  });
+
+  const instants = [...events.map(event => event.time), ...bars.flatMap(bar => [bar.start, bar.end])].map(d => d.getTime());
+  return { start: new Date(Math.min(...instants)), end: new Date(Math.max(...instants)), events, bars, unplaced };
+};
+
+const clockOf = (time: Date, timeZone: string) => toCaseIso(time, timeZone).slice(11);
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const WIDTH = 720;
+const MARGIN = 24;
+const LANE_HEIGHT = 28;
+const FONT = "font-family=\"'Noto Sans TC','Microsoft JhengHei',sans-serif\"";
+const TICK_STEPS_MINUTES = [1, 2, 5, 10, 15, 30, 60];
+
+// Rough label width for lane placement; CJK characters are about a full em wide
+const labelWidth = (text: string, fontSize: number) =>
+  [...text].reduce((width, ch) => width + (ch.charCodeAt(0) > 0x2e80 ? fontSize : fontSize * 0.6), 0);
+
+export const timelineToSvg = (timeline: Timeline, timeZone: string) => {
+  const startMs = timeline.start.getTime();
+  const spanMs = Math.max(timeline.end.getTime() - startMs, 60 * 1000);
+  const plotWidth = WIDTH - MARGIN * 2;
+  const x = (time: Date) => MARGIN + ((time.getTime() - startMs) / spanMs) * plotWidth;
+
+  // Event labels go in the lowest lane where they do not overlap an earlier one; labels that
+  // would run past the right edge are drawn to the left of their marker
+  const laneEnds: number[] = [];
+  const placed = timeline.events.map((event) => {
+    const left = x(event.time);
+    const width = Math.max(labelWidth(event.label, 11), labelWidth(clockOf(event.time, timeZone), 10)) + 6;
+    const flip = left + width > WIDTH;
+    const from = flip ? left - width : left;
+    let lane = laneEnds.findIndex(end => end < from);
+    if (lane < 0) lane = laneEnds.length;
+    laneEnds[lane] = from + width;
+    return { event, left, lane, flip };
+  });
+  const lanes = Math.max(laneEnds.length, 1);
+  const axisY = 16 + lanes * LANE_HEIGHT + 8;
+  const barY = axisY + 22;
+
+  const reasons = Array.from(new Set(timeline.bars.map(bar => bar.reason)));
+  const legendY = barY + 40;
+  const height = legendY + reasons.length * 18 + (timeline.unplaced > 0 ? 18 : 0) + 8;
+
+  const parts: string[] = [];
+  parts.push(`<rect x="0" y="0" width="${WIDTH}" height="${height}" fill="#ffffff"/>`);
+
+  // Minute ticks on whole minutes of the AED clock
+  const minutes = spanMs / 60000;
+  const step = TICK_STEPS_MINUTES.find(candidate => minutes / candidate <= 10) || 120;
+  const firstTick = Math.ceil(startMs / (step * 60000)) * step * 60000;
+  for (let ms = firstTick; ms <= startMs + spanMs; ms += step * 60000) {
+    const tickX = x(new Date(ms));
+    parts.push(`<line x1="${tickX}" y1="${axisY}" x2="${tickX}" y2="${barY + 18}" stroke="#e2e8f0"/>`);
+    parts.push(`<text x="${tickX}" y="${barY + 30}" font-size="9" fill="#94a3b8" text-anchor="middle" ${FONT}>${clockOf(new Date(ms), timeZone).slice(0, 5)}</text>`);
+  }
+  parts.push(`<line x1="${MARGIN}" y1="${axisY}" x2="${WIDTH - MARGIN}" y2="${axisY}" stroke="#334155" stroke-width="1.5"/>`);
+
+  placed.forEach(({ event, left, lane, flip }) => {
+    const labelY = 16 + (lanes - 1 - lane) * LANE_HEIGHT;
+    const textAt = flip ? `x="${left - 3}" text-anchor="end"` : `x="${left + 3}"`;
+    parts.push(`<line x1="${left}" y1="${labelY + 14}" x2="${left}" y2="${axisY}" stroke="#94a3b8" stroke-dasharray="2,2"/>`);
+    parts.push(`<circle cx="${left}" cy="${axisY}" r="3.5" fill="#0f4c81"/>`);
+    parts.push(`<text ${textAt} y="${labelY}" font-size="11" font-weight="bold" fill="#0f4c81" ${FONT}>${escapeXml(event.label)}</text>`);
+    parts.push(`<text ${textAt} y="${labelY + 11}" font-size="10" fill="#64748b" ${FONT}>${clockOf(event.time, timeZone)}</text>`);
+  });
+
+  parts.push(`<text x="${MARGIN}" y="${barY - 4}" font-size="9" fill="#64748b" ${FONT}>CPR 中斷</text>`);
+  timeline.bars.forEach((bar) => {
+    const left = x(bar.start);
+    const width = Math.max(x(bar.end) - left, 1.5);
+    const title = `${bar.reason || '未選擇原因'}：${clockOf(bar.start, timeZone)}–${clockOf(bar.end, timeZone)} (${bar.seconds}秒)`;
+    parts.push(`<rect x="${left}" y="${barY}" width="${width}" height="14" fill="${reasonColor(bar.reason)}" fill-opacity="0.85"><title>${escapeXml(title)}</title></rect>`);
+  });
+
+  reasons.forEach((reason, i) => {
+    const y = legendY + i * 18;
+    const total = timeline.bars.filter(bar => bar.reason === reason).reduce((sum, bar) => sum + bar.seconds, 0);
+    parts.push(`<rect x="${MARGIN}" y="${y - 9}" width="12" height="12" fill="${reasonColor(reason)}"/>`);
+    parts.push(`<text x="${MARGIN + 18}" y="${y + 1}" font-size="11" fill="#334155" ${FONT}>${escapeXml(reason || '未選擇原因')}：${total} 秒</text>`);
+  });
+  if (timeline.unplaced > 0) {
+    parts.push(`<text x="${MARGIN}" y="${legendY + reasons.length * 18 + 1}" font-size="10" fill="#dc2626" ${FONT}>${timeline.unplaced} 筆中斷無法放上時間軸 (時間格式或時間基準未設定)</text>`);
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${height}" viewBox="0 0 ${WIDTH} ${height}">${parts.join('')}</svg>`;
+};
+
+// Plain-text form for the copied summary: events and interruptions in time order
+export const timelineToText = (timeline: Timeline, timeZone: string) => {
+  const rows = [
+    ...timeline.events.map(event => ({ at: event.time.getTime(), text: `${clockOf(event.time, timeZone)} ${event.label}` })),
+    ...timeline.bars.map(bar => ({
+      at: bar.start.getTime(),
+      text: `${clockOf(bar.start, timeZone)}–${clockOf(bar.end, timeZone)} 中斷 ${bar.seconds}秒 ${bar.reason || '(未選擇原因)'}`,
+    })),
+  ];
+  return rows.sort((a, b) => a.at - b.at).map(row => row.text).join('\n');
+};
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { AppState, INITIAL_STATE } from '../types';
+import { AIRWAY_OPTIONS, RHYTHM_OPTIONS } from '../constants';
+import { getCorrectedTimes } from './metrics';
+import {
+  CROSS_FIELD_RULES,
+  RECORD_RULES,
+  checkTimeEntry,
+  evaluateRules,
+  fieldElementId,
+  toTimeValues,
+  worstSeverity,
+} from './validationRules';
+
+const DAY = '2024-03-01';
+
+const blankCase = (): AppState => JSON.parse(JSON.stringify(INITIAL_STATE));
+
+const messagesOf = (data: AppState, rules = RECORD_RULES) =>
+  evaluateRules(data, undefined, rules).map(({ severity, message }) => ({ severity, message }));
+
+describe('time rules', () => {
+  it('reports a time before its predecessor as an error on the later field', () => {
+    const data = blankCase();
+    data.timeRecords.powerOn = `${DAY}T10:05:00`;
+    data.timeRecords.padsOn = `${DAY}T10:04:00`;
+    const violation = evaluateRules(data).find(v => v.rule.kind === 'order');
+
+    expect(violation).toMatchObject({
+      severity: 'error',
+      kind: 'logic',
+      message: '時間順序錯誤：[貼上貼片] 不能早於 [Power ON]',
+      target: { tab: 'timeRecords', field: 'padsOn' },
+    });
+  });
+
+  it('accepts equal times and checks AED off against pads when MCPR has no time', () => {
+    const data = blankCase();
+    data.timeRecords.powerOn = `${DAY}T10:05:00`;
+    data.timeRecords.padsOn = `${DAY}T10:05:00`;
+    data.timeRecords.aedOff = `${DAY}T10:04:00`;
+    const orders = messagesOf(data).filter(m => m.message.startsWith('時間順序錯誤'));
+
+    expect(orders).toEqual([{ severity: 'error', message: '時間順序錯誤：[AED 關機] 不能早於 [貼上貼片]' }]);
+  });
+
+  it('warns, without blocking, when ROSC differs from AED off', () => {
+    const data = blankCase();
+    data.timeRecords.aedOff = `${DAY}T10:20:00`;
+    data.timeRecords.rosc.emt1 = `${DAY}T10:18:00`;
+    const violation = evaluateRules(data).find(v => v.rule.kind === 'coincide');
+
+    expect(violation).toMatchObject({
+      severity: 'warning',
+      message: '時間不一致：[ROSC 時間] 應與 [AED 關機] 相同',
+      target: { tab: 'timeRecords', field: 'rosc', emt: 'emt1' },
+    });
+
+    data.timeRecords.rosc.emt1 = `${DAY}T10:20:01`;
+    expect(evaluateRules(data).some(v => v.rule.kind === 'coincide')).toBe(false);
+  });
+
+  it('reports empty required times, and takes N/A from any EMT for the optional steps', () => {
+    const data = blankCase();
+    data.timeRecords.mcprSetup.emt2 = 'N/A';
+    const missing = evaluateRules(data).filter(v => v.rule.kind === 'requiredTime');
+
+    expect(missing.map(v => v.message)).not.toContain('時間紀錄: MCPR 架設');
+    expect(missing.find(v => v.message === '時間紀錄: 第一次給藥')).toMatchObject({ severity: 'error', kind: 'missing' });
+    expect(missing.find(v => v.message === '時間紀錄: 第一次給氣')).toMatchObject({ severity: 'error', kind: 'missing' });
+  });
+
+  it('checks a single entry in place of the merged time', () => {
+    const data = blankCase();
+    data.timeRecords.padsOn = `${DAY}T10:01:00`;
+    data.timeRecords.aedOff = `${DAY}T10:20:00`;
+    const times = toTimeValues(getCorrectedTimes(data));
+
+    expect(worstSeverity(checkTimeEntry(data, 'firstShock', new Date(`${DAY}T10:21:00+08:00`), times))).toBe('error');
+    expect(worstSeverity(checkTimeEntry(data, 'firstShock', new Date(`${DAY}T10:05:00+08:00`), times))).toBeNull();
+    expect(worstSeverity(checkTimeEntry(data, 'rosc', new Date(`${DAY}T10:10:00+08:00`), times))).toBe('warning');
+  });
+});
+
+describe('field rules', () => {
+  it('reports empty required fields as missing errors', () => {
+    const violation = evaluateRules(blankCase()).find(v => v.message === '基本資料: 審核者姓名');
+    expect(violation).toMatchObject({ severity: 'error', kind: 'missing', target: { tab: 'basicInfo', field: 'reviewer' } });
+  });
+
+  it('rejects text in number fields and warns on implausible patch values', () => {
+    const data = blankCase();
+    data.technicalInfo.airwayInterruptionSeconds = 'abc';
+    data.feedbackPatchInfo.manualDepthBeforeMcpr = '12';
+    data.feedbackPatchInfo.postShockPauseTime = 'N/A';
+    const messages = messagesOf(data);
+
+    expect(messages).toContainEqual({ severity: 'error', message: '處置認列：[建立呼吸道中斷(秒)] 請輸入數字' });
+    expect(messages).toContainEqual({ severity: 'warning', message: '回饋貼片：[架設MCPR前平均徒手按壓深度(cm)] 應介於 0–10 (目前 12)' });
+    expect(messages.some(m => m.message.includes('去顫後停滯時間'))).toBe(false);
+  });
+});
+
+describe('CROSS_FIELD_RULES', () => {
+  it('warns on each contradiction between 處置認列 and the time records', () => {
+    const data = blankCase();
+    data.technicalInfo.airwayDevice = AIRWAY_OPTIONS[0];
+    data.timeRecords.airway.emt2 = `${DAY}T10:10:00`;
+    data.technicalInfo.useCompressor = 'No';
+    data.timeRecords.mcprSetup.emt1 = `${DAY}T10:12:00`;
+    data.technicalInfo.initialRhythm = RHYTHM_OPTIONS[3];
+    data.timeRecords.firstShock = `${DAY}T10:03:00`;
+    data.technicalInfo.endoOperator = 'A';
+    const violations = evaluateRules(data, undefined, CROSS_FIELD_RULES);
+
+    expect(violations.every(v => v.severity === 'warning')).toBe(true);
+    expect(violations.map(v => v.target?.field)).toEqual(['airwayDevice', 'useCompressor', 'initialRhythm', 'endoOperator']);
+  });
+
+  it('warns on intubation attempts with an SGA and a compressor with MCPR N/A', () => {
+    const data = blankCase();
+    data.technicalInfo.endoAttempts = 1;
+    data.technicalInfo.airwayDevice = AIRWAY_OPTIONS[1];
+    data.technicalInfo.useCompressor = 'Yes';
+    data.timeRecords.mcprSetup.emt1 = 'N/A';
+
+    expect(evaluateRules(data, undefined, CROSS_FIELD_RULES).map(v => v.target?.field))
+      .toEqual(['useCompressor', 'endoAttempts']);
+  });
+
+  it('stays quiet on a consistent case', () => {
+    const data = blankCase();
+    data.technicalInfo.airwayDevice = AIRWAY_OPTIONS[2];
+    data.technicalInfo.endoOperator = 'A';
+    data.technicalInfo.useCompressor = 'Yes';
+    data.timeRecords.mcprSetup.emt1 = `${DAY}T10:12:00`;
+    expect(evaluateRules(data, undefined, CROSS_FIELD_RULES)).toEqual([]);
+  });
+});
+
+describe('fieldElementId', () => {
+  it('builds the ids the form inputs carry', () => {
+    expect(fieldElementId({ tab: 'basicInfo', field: 'reviewer' })).toBe('field-basicInfo-reviewer');
+    expect(fieldElementId({ tab: 'timeRecords', field: 'padsOn' })).toBe('field-timeRecords-padsOn');
+    expect(fieldElementId({ tab: 'timeRecords', field: 'contact', emt: 'emt2' })).toBe('field-timeRecords-contact-emt2');
+    expect(fieldElementId({ tab: 'interruptions', field: 'beforePads.0.reason' })).toBe('field-interruptions-beforePads.0.reason');
+  });
+
+  it('points a missing EMT time at the first EMT with an entry, else EMT1', () => {
+    const data = blankCase();
+    data.timeRecords.contact.emt3 = `${DAY}T10:00:00`;
+    data.timeRecords.found.emt3 = `${DAY}T10:01:00`;
+    const targets = evaluateRules(data).map(v => v.target && fieldElementId(v.target));
+
+    expect(targets).toContain('field-timeRecords-cprStart-emt1');
+    expect(targets).toContain('field-timeRecords-contact-emt3');
+  });
+});
@@ -0,0 +1,368 @@
+import { AppState, BasicInfo, EmtKey, FeedbackPatchInfo, TechnicalInfo, TimeRecord } from '../types';
+import { AIRWAY_OPTIONS, RHYTHM_OPTIONS, TIME_FIELD_LABELS } from '../constants';
+import { CorrectedTimes, getCorrectedTimes } from './metrics';
+import { FEEDBACK_PATCH_FIELDS, parsePatchValue, patchNumber } from './feedbackPatch';
+
+// The checks a record must pass before export, as data. validateRecord runs all of them for the
+// preview list; the Time tab runs the time rules against a single EMT entry to mark the field,
+// and the Feedback Patch tab runs the rules of each of its fields.
+
+// error: blocks export and upload. warning: shown for the reviewer to confirm, does not block.
+export type RuleSeverity = 'error' | 'warning';
+
+// Corrected AED times by TimeRecord field
+export type TimeValues = Record<keyof TimeRecord, Date | null>;
+
+type Condition = (data: AppState, times: TimeValues) => boolean;
+
+// The form tabs, as App lays them out
+export type FormTab = 'basicInfo' | 'calibration' | 'timeRecords' | 'interruptions' | 'technicalInfo' | 'feedbackPatch';
+
+// The input to fix a rule at, for jumping there from the preview. `field` is the key in the tab's
+// section of AppState; interruption entries use "<section>.<index>.<start|end|reason>", or the
+// section alone for its totals. `emt` is the EMT slot of a time entered per EMT.
+export interface FieldTarget {
+  tab: FormTab;
+  field: string;
+  emt?: EmtKey;
+}
+
+// DOM id of the input a target points at
+export const fieldElementId = (target: FieldTarget) =>
+  `field-${target.tab}-${target.field}${target.emt ? `-${target.emt}` : ''}`;
+
+export interface ValidationMessage {
+  message: string;
+  target?: FieldTarget;
+}
+
+interface RuleBase {
+  severity: RuleSeverity;
+  when?: Condition; // The rule only applies when this holds
+  target?: FieldTarget;
+}
+
+// A text or select field that must not be empty
+export interface RequiredRule extends RuleBase {
+  kind: 'required';
+  section: string;
+  label: string;
+  value: (data: AppState) => string;
+}
+
+// A time that must be filled in by at least one EMT; with allowNA, 'N/A' from any EMT also counts
+export interface RequiredTimeRule extends RuleBase {
+  kind: 'requiredTime';
+  field: keyof TimeRecord;
+  allowNA: boolean;
+}
+
+// `later` must not be earlier than `earlier` by more than toleranceSeconds
+export interface OrderRule extends RuleBase {
+  kind: 'order';
+  earlier: keyof TimeRecord;
+  later: keyof TimeRecord;
+  toleranceSeconds: number;
+}
+
+// Two times that should be the same instant, within toleranceSeconds
+export interface CoincideRule extends RuleBase {
+  kind: 'coincide';
+  field: keyof TimeRecord;
+  other: keyof TimeRecord;
+  toleranceSeconds: number;
+}
+
+// A value typed as text that must be a number, or 'N/A' with allowNA; empty values are left to a required rule
+export interface NumberRule extends RuleBase {
+  kind: 'number';
+  section: string;
+  label: string;
+  value: (data: AppState) => string;
+  allowNA: boolean;
+}
+
+// Bounds of a number typed as text; values that are not numbers are left to a number rule
+export interface RangeRule extends RuleBase {
+  kind: 'range';
+  section: string;
+  label: string;
+  value: (data: AppState) => string;
+  min?: number;
+  max?: number;
+}
+
+// Values that contradict each other, e.g. a shock pause without a shock
+export interface ConsistencyRule extends RuleBase {
+  kind: 'consistency';
+  message: string;
+  conflict: (data: AppState, times: TimeValues) => boolean;
+}
+
+export type ValidationRule = RequiredRule | RequiredTimeRule | OrderRule | CoincideRule | NumberRule | RangeRule | ConsistencyRule;
+
+export interface RuleViolation extends ValidationMessage {
+  rule: ValidationRule;
+  severity: RuleSeverity;
+  kind: 'missing' | 'logic';
+}
+
+const requiredBasic = (field: keyof BasicInfo, label: string): RequiredRule =>
+  ({ kind: 'required', severity: 'error', section: '基本資料', label, value: d => d.basicInfo[field], target: { tab: 'basicInfo', field } });
+
+const requiredTechnical = (field: keyof TechnicalInfo, label: string): RequiredRule => ({
+  kind: 'required',
+  severity: 'error',
+  section: '處置認列',
+  label,
+  value: d => String(d.technicalInfo[field]),
+  target: { tab: 'technicalInfo', field },
+});
+
+const requiredTime = (field: keyof TimeRecord, allowNA = false): RequiredTimeRule =>
+  ({ kind: 'requiredTime', severity: 'error', field, allowNA });
+
+const order = (earlier: keyof TimeRecord, later: keyof TimeRecord, when?: Condition): OrderRule =>
+  ({ kind: 'order', severity: 'error', earlier, later, toleranceSeconds: 0, when });
+
+const NO_SHOCK_RHYTHM = RHYTHM_OPTIONS[0]; // '0. 無電擊'
+
+const hasShockPause = (data: AppState, field: 'preShockPauseTime' | 'postShockPauseTime') =>
+  patchNumber(data.feedbackPatchInfo[field]) !== null;
+
+const shockPauseRules = (field: 'preShockPauseTime' | 'postShockPauseTime', label: string): ConsistencyRule[] => [
+  {
+    kind: 'consistency',
+    severity: 'warning',
+    message: `回饋貼片：已填寫[${label}]，但未記錄首次電擊時間`,
+    conflict: d => hasShockPause(d, field) && !d.timeRecords.firstShock,
+    target: { tab: 'feedbackPatch', field },
+  },
+  {
+    kind: 'consistency',
+    severity: 'warning',
+    message: `回饋貼片：已填寫[${label}]，但 AED 初始心律為「${NO_SHOCK_RHYTHM}」`,
+    conflict: d => hasShockPause(d, field) && d.technicalInfo.initialRhythm === NO_SHOCK_RHYTHM,
+    target: { tab: 'feedbackPatch', field },
+  },
+];
+
+// Per feedback patch field, so the tab can mark each input: numbers or N/A (an error otherwise),
+// implausible values as warnings, and pauses that contradict the recorded shocks
+export const FEEDBACK_PATCH_RULES = Object.fromEntries(FEEDBACK_PATCH_FIELDS.map(({ key, label, min, max }) => {
+  const value = (d: AppState) => d.feedbackPatchInfo[key];
+  const target: FieldTarget = { tab: 'feedbackPatch', field: key };
+  const rules: ValidationRule[] = [
+    { kind: 'number', severity: 'error', section: '回饋貼片', label, value, allowNA: true, target },
+    { kind: 'range', severity: 'warning', section: '回饋貼片', label, value, min, max, target },
+  ];
+  if (key === 'preShockPauseTime') rules.push(...shockPauseRules(key, '去顫前停滯時間'));
+  if (key === 'postShockPauseTime') rules.push(...shockPauseRules(key, '去顫後停滯時間'));
+  return [key, rules];
+})) as Record<keyof FeedbackPatchInfo, ValidationRule[]>;
+
+// A time entered by any EMT, N/A aside; calibration is not needed to know the step was recorded
+const hasTimeEntry = (data: AppState, field: keyof TimeRecord) => {
+  const value = data.timeRecords[field];
+  const entries = typeof value === 'string' ? [value] : [value.emt1, value.emt2, value.emt3];
+  return entries.some(entry => entry && entry !== 'N/A');
+};
+
+const isMcprNA = (data: AppState) => {
+  const { emt1, emt2, emt3 } = data.timeRecords.mcprSetup;
+  return [emt1, emt2, emt3].includes('N/A');
+};
+
+const NO_AIRWAY = AIRWAY_OPTIONS[0]; // '0. 沒有建立進階呼吸道'
+const SGA = AIRWAY_OPTIONS[1];
+const LARYNGOSCOPES = [AIRWAY_OPTIONS[2], AIRWAY_OPTIONS[3]];
+const NON_SHOCK_RHYTHMS = [RHYTHM_OPTIONS[0], RHYTHM_OPTIONS[3]]; // 無電擊, ASYSTOLE
+
+const crossCheck = (field: string, message: string, conflict: (data: AppState) => boolean): ConsistencyRule =>
+  ({ kind: 'consistency', severity: 'warning', message: `處置認列：${message}`, conflict, target: { tab: 'technicalInfo', field } });
+
+// 處置認列 answers the timeline contradicts; the target is the answer, the usual one to correct
+export const CROSS_FIELD_RULES: ConsistencyRule[] = [
+  crossCheck('airwayDevice', `進階呼吸道器材為「${NO_AIRWAY}」，但有記錄呼吸道建立時間`,
+    d => d.technicalInfo.airwayDevice === NO_AIRWAY && hasTimeEntry(d, 'airway')),
+  crossCheck('useCompressor', '壓胸機有無使用為 No，但有記錄 MCPR 架設時間',
+    d => d.technicalInfo.useCompressor === 'No' && hasTimeEntry(d, 'mcprSetup')),
+  crossCheck('useCompressor', '壓胸機有無使用為 Yes，但 MCPR 架設為 N/A',
+    d => d.technicalInfo.useCompressor === 'Yes' && isMcprNA(d)),
+  crossCheck('endoAttempts', `插管嘗試次數大於 0，但進階呼吸道器材為「${SGA}」`,
+    d => d.technicalInfo.endoAttempts > 0 && d.technicalInfo.airwayDevice === SGA),
+  crossCheck('initialRhythm', 'AED 初始心律為不可電擊心律，但有記錄首次電擊時間',
+    d => NON_SHOCK_RHYTHMS.includes(d.technicalInfo.initialRhythm) && hasTimeEntry(d, 'firstShock')),
+  crossCheck('endoOperator', '已填寫 Endo 插管者，但進階呼吸道器材不是喉頭鏡插管',
+    d => !!d.technicalInfo.endoOperator && !LARYNGOSCOPES.includes(d.technicalInfo.airwayDevice)),
+];
+
+export const RECORD_RULES: ValidationRule[] = [
+  requiredBasic('reviewer', '審核者姓名'),
+  requiredBasic('battalion', '大隊別'),
+  requiredBasic('unit', '分隊'),
+  requiredBasic('caseId', '案件編號'),
+  requiredBasic('date', '案件發生日期'),
+  requiredBasic('ohcaType', 'OHCA 類型'),
+  requiredBasic('notificationTime', '發現/通報時機'),
+  requiredBasic('member1', '人員 1'),
+  requiredBasic('member2', '人員 2'),
+
+  requiredTechnical('aedPadCorrect', 'AED 貼片位置'),
+  requiredTechnical('checkPulse', '檢查頸動脈'),
+  requiredTechnical('useCompressor', '壓胸機有無使用'),
+  requiredTechnical('initialRhythm', 'AED 初始心律'),
+  requiredTechnical('postShockRhythm', 'AED初始心律首次電擊之後的心律'),
+  requiredTechnical('airwayDevice', '進階呼吸道器材'),
+  requiredTechnical('airwayInterruptionSeconds', '建立呼吸道中斷(秒)'),
+  { kind: 'number', severity: 'error', section: '處置認列', label: '建立呼吸道中斷(秒)', value: d => d.technicalInfo.airwayInterruptionSeconds, allowNA: false, target: { tab: 'technicalInfo', field: 'airwayInterruptionSeconds' } },
+  { kind: 'range', severity: 'error', section: '處置認列', label: '建立呼吸道中斷(秒)', value: d => d.technicalInfo.airwayInterruptionSeconds, min: 0, target: { tab: 'technicalInfo', field: 'airwayInterruptionSeconds' } },
+
+  ...FEEDBACK_PATCH_FIELDS.flatMap(({ key }) => FEEDBACK_PATCH_RULES[key]),
+
+  requiredTime('found'),
+  requiredTime('contact'),
+  requiredTime('ohcaJudgment'),
+  requiredTime('cprStart'),
+  requiredTime('powerOn'),
+  requiredTime('padsOn'),
+  requiredTime('firstMed'),
+  requiredTime('aedOff'),
+  requiredTime('firstVentilation', true),
+  requiredTime('mcprSetup', true),
+  requiredTime('airway', true),
+
+  order('found', 'contact'),
+  order('contact', 'ohcaJudgment'),
+  order('ohcaJudgment', 'cprStart'),
+  order('ohcaJudgment', 'powerOn'),
+  order('powerOn', 'padsOn'),
+  order('ohcaJudgment', 'firstVentilation'),
+  order('cprStart', 'mcprSetup'),
+  order('ohcaJudgment', 'firstMed'),
+  order('ohcaJudgment', 'airway'),
+  order('mcprSetup', 'aedOff', (_, t) => t.mcprSetup !== null),
+  order('padsOn', 'aedOff', (_, t) => t.mcprSetup === null),
+  order('padsOn', 'firstShock'),
+  order('firstShock', 'aedOff'),
+  { kind: 'coincide', severity: 'warning', field: 'rosc', other: 'aedOff', toleranceSeconds: 1 },
+
+  ...CROSS_FIELD_RULES,
+];
+
+export const toTimeValues = (times: CorrectedTimes): TimeValues => ({
+  found: times.found,
+  contact: times.contact,
+  ohcaJudgment: times.ohca,
+  cprStart: times.cpr,
+  powerOn: times.aedOn,
+  padsOn: times.pads,
+  firstVentilation: times.vent,
+  mcprSetup: times.mcpr,
+  firstMed: times.med,
+  airway: times.airway,
+  aedOff: times.aedOff,
+  rosc: times.rosc,
+  firstShock: times.firstShock,
+});
+
+const timeLabel = (field: keyof TimeRecord) => TIME_FIELD_LABELS[field] || field;
+
+// The message when the rule is broken, or null when it holds
+const checkRule = (rule: ValidationRule, data: AppState, times: TimeValues): string | null => {
+  switch (rule.kind) {
+    case 'required':
+      return rule.value(data) ? null : `${rule.section}: ${rule.label}`;
+    case 'requiredTime': {
+      const value = data.timeRecords[rule.field];
+      const entries = typeof value === 'string' ? [value] : [value.emt1, value.emt2, value.emt3];
+      const isNA = rule.allowNA && entries.includes('N/A');
+      return isNA || entries.some(Boolean) ? null : `時間紀錄: ${timeLabel(rule.field)}`;
+    }
+    case 'order': {
+      const earlier = times[rule.earlier];
+      const later = times[rule.later];
+      if (!earlier || !later || earlier.getTime() - later.getTime() <= rule.toleranceSeconds * 1000) return null;
+      return `時間順序錯誤：[${timeLabel(rule.later)}] 不能早於 [${timeLabel(rule.earlier)}]`;
+    }
+    case 'coincide': {
+      const a = times[rule.field];
+      const b = times[rule.other];
+      if (!a || !b || Math.abs(a.getTime() - b.getTime()) <= rule.toleranceSeconds * 1000) return null;
+      return `時間不一致：[${timeLabel(rule.field)}] 應與 [${timeLabel(rule.other)}] 相同`;
+    }
+    case 'number': {
+      const parsed = parsePatchValue(rule.value(data));
+      if (parsed.kind === 'empty' || parsed.kind === 'number' || (parsed.kind === 'na' && rule.allowNA)) return null;
+      return `${rule.section}：[${rule.label}] 請輸入數字${rule.allowNA ? '或 N/A' : ''}`;
+    }
+    case 'range': {
+      const n = patchNumber(rule.value(data));
+      if (n === null) return null;
+      if ((rule.min !== undefined && n < rule.min) || (rule.max !== undefined && n > rule.max)) {
+        const range = rule.max === undefined ? `不小於 ${rule.min}` : rule.min === undefined ? `不大於 ${rule.max}` : `介於 ${rule.min}–${rule.max}`;
+        return `${rule.section}：[${rule.label}] 應${range} (目前 ${n})`;
+      }
+      return null;
+    }
+    case 'consistency':
+      return rule.conflict(data, times) ? rule.message : null;
+  }
+};
+
+// The EMT slot to fix a time at: the first one entered (the entry 'auto' reads), else EMT1
+export const timeFieldTarget = (data: AppState, field: keyof TimeRecord): FieldTarget => {
+  const value = data.timeRecords[field];
+  if (typeof value === 'string') return { tab: 'timeRecords', field };
+  const emt = (['emt1', 'emt2', 'emt3'] as const).find(key => value[key] && value[key] !== 'N/A') || 'emt1';
+  return { tab: 'timeRecords', field, emt };
+};
+
+// Time rules point at the field their message names as wrong
+const ruleTarget = (rule: ValidationRule, data: AppState): FieldTarget | undefined => {
+  if (rule.target) return rule.target;
+  if (rule.kind === 'requiredTime' || rule.kind === 'coincide') return timeFieldTarget(data, rule.field);
+  if (rule.kind === 'order') return timeFieldTarget(data, rule.later);
+  return undefined;
+};
+
+const ruleKind = (rule: ValidationRule): RuleViolation['kind'] =>
+  rule.kind === 'required' || rule.kind === 'requiredTime' ? 'missing' : 'logic';
+
+export const evaluateRules = (
+  data: AppState,
+  times: TimeValues = toTimeValues(getCorrectedTimes(data)),
+  rules: ValidationRule[] = RECORD_RULES
+): RuleViolation[] => {
+  const violations: RuleViolation[] = [];
+  rules.forEach((rule) => {
+    if (rule.when && !rule.when(data, times)) return;
+    const message = checkRule(rule, data, times);
+    if (message) violations.push({ rule, severity: rule.severity, kind: ruleKind(rule), message, target: ruleTarget(rule, data) });
+  });
+  return violations;
+};
+
+// Time rules broken by one entry of a field, read as `time` in place of the field's corrected time.
+// Used to mark a single EMT input while the others may still disagree with it.
+export const checkTimeEntry = (
+  data: AppState,
+  field: keyof TimeRecord,
+  time: Date,
+  times: TimeValues,
+  rules: ValidationRule[] = RECORD_RULES
+): RuleViolation[] => {
+  const involved = rules.filter(rule =>
+    (rule.kind === 'order' && (rule.earlier === field || rule.later === field)) ||
+    (rule.kind === 'coincide' && (rule.field === field || rule.other === field)));
+  return evaluateRules(data, { ...times, [field]: time }, involved);
+};
+
+// The strongest severity among violations, null when there are none
+export const worstSeverity = (violations: RuleViolation[]): RuleSeverity | null =>
+  violations.length === 0 ? null : violations.some(v => v.severity === 'error') ? 'error' : 'warning';
+
+// Violations per feedback patch field, for the marks in the Feedback Patch tab
+export const validateFeedbackPatch = (data: AppState, times: TimeValues = toTimeValues(getCorrectedTimes(data))) =>
+  Object.fromEntries(FEEDBACK_PATCH_FIELDS.map(({ key }) => [key, evaluateRules(data, times, FEEDBACK_PATCH_RULES[key])])) as
+    Record<keyof FeedbackPatchInfo, RuleViolation[]>;
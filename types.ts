@@ -1,15 +1,21 @@
 
+// One reference point: the same moment read on the EMT's device and on the AED
 export interface TimeCalibration {
   keyTime: string; // ISO string
   aedTime: string; // ISO string
 }
 
+// Reference points per EMT. One pair gives a constant offset; two or more also fit the clock drift.
 export interface PersonnelCalibration {
-  emt1: TimeCalibration;
-  emt2: TimeCalibration;
-  emt3: TimeCalibration;
+  emt1: TimeCalibration[];
+  emt2: TimeCalibration[];
+  emt3: TimeCalibration[];
 }
 
+export type EmtKey = keyof PersonnelCalibration;
+
+export type EmtTimes = Record<EmtKey, string>;
+
 export interface TimeRecord {
   found: { emt1: string; emt2: string; emt3: string };
   contact: { emt1: string; emt2: string; emt3: string };
@@ -26,6 +32,13 @@ export interface TimeRecord {
   firstShock: string; // Direct AED time
 }
 
+// Time fields entered per EMT (the rest are read directly off the AED)
+export type EmtTimeField = { [K in keyof TimeRecord]: TimeRecord[K] extends string ? never : K }[keyof TimeRecord];
+
+// Which entries a field's corrected AED time comes from.
+// auto: the first filled in of EMT1 → EMT2 → EMT3. average: mean of the calibrated EMTs' corrected times.
+export type TimeSource = 'auto' | EmtKey | 'average';
+
 export interface BasicInfo {
   reviewer: string;
   battalion: string; // New field
@@ -84,27 +97,124 @@ export interface InterruptionItem {
 }
 
 export interface InterruptionRecords {
-  beforePads: InterruptionItem[]; // Fixed 5 slots
-  beforeMcpr: InterruptionItem[]; // Fixed 10 slots
+  beforePads: InterruptionItem[]; // Any number of entries, in the order the reviewer arranged them
+  beforeMcpr: InterruptionItem[];
+}
+
+// How interruption start/end are read. video: elapsed time in the review video ("MMSS", "MM:SS" or
+// "H:MM:SS"), whose 00:00 is the AED clock time videoStart, or Power ON when videoStart is empty.
+// aedClock: AED clock times of day ("HH:MM:SS" or "HHMMSS").
+export interface InterruptionTimeBase {
+  kind: 'video' | 'aedClock';
+  videoStart: string; // ISO string YYYY-MM-DDTHH:mm:ss
+}
+
+// A roster shift: who was on duty for a unit, imported from the duty roster CSV
+export interface RosterShift {
+  date: string; // YYYY-MM-DD the shift starts
+  unit: string;
+  shift: string; // e.g. 日班 / 夜班
+  start: string; // HH:MM
+  end: string; // HH:MM, not after start means the shift ends the next day
+  members: string[];
+}
+
+export interface CrewOverride {
+  field: string; // member1 … member6
+  rosterValue: string;
+  value: string;
+  changedAt: string; // ISO string
+}
+
+// How the crew of a case was filled in, so changes to a roster suggestion can be traced
+export interface CrewRosterLog {
+  shift: string; // Applied shift, e.g. "2025-01-02 新店 日班"; empty when typed by hand
+  appliedAt: string; // ISO string
+  members: string[]; // member1 … member6 as filled from the roster
+  overrides: CrewOverride[]; // Member fields changed afterwards, latest change per field
 }
 
 export interface AppState {
+  timeZone: string; // IANA zone that the case's naive date-time strings are in
   calibration: PersonnelCalibration;
   timeRecords: TimeRecord;
+  timeSources: Record<EmtTimeField, TimeSource>;
   basicInfo: BasicInfo;
   technicalInfo: TechnicalInfo;
   feedbackPatchInfo: FeedbackPatchInfo;
   interruptionRecords: InterruptionRecords;
+  interruptionTimeBase: InterruptionTimeBase;
+  crewRoster: CrewRosterLog;
 }
 
-const createEmptyInterruptions = (count: number) => 
-  Array(count).fill(null).map((_, i) => ({ id: i.toString(), start: '', end: '', reason: '' }));
+export interface CaseSummary {
+  id: string; // Library key, independent of caseId so drafts without a caseId can be stored
+  caseId: string;
+  date: string;
+  unit: string;
+  archived: boolean;
+  updatedAt: string; // ISO string
+}
+
+export interface SubmissionEndpoint {
+  name: string;
+  url: string;
+}
+
+// Metrics graded against the battalion's QC targets
+export type ThresholdKey = 'cprDelay' | 'padsDelay' | 'bvmTime' | 'airwayTime' | 'medDelay' | 'ccf' | 'preShockPause';
+
+// Pass within `pass`, warn within `warn`, fail beyond. Seconds are "at most"; CCF (%) is "at least".
+// A null `pass` leaves the metric ungraded, a null `warn` has no warning band.
+export interface MetricThreshold {
+  pass: number | null;
+  warn: number | null;
+}
+
+export type MetricThresholds = Record<ThresholdKey, MetricThreshold>;
+
+export interface AppSettings {
+  scriptUrl: string; // Google Apps Script web app (doPost) receiving submissions
+  sheetUrl: string; // Spreadsheet link shown after a successful upload
+  additionalEndpoints: SubmissionEndpoint[]; // Also receive every submission, e.g. a battalion copy
+  thresholds: MetricThresholds;
+}
+
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  caseKey: string; // Case library id
+  caseId: string;
+  endpointName: string;
+  url: string;
+  payload: unknown;
+  payloadHash: string; // Identifies identical submissions of the same case
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: string; // ISO string
+  lastError: string;
+  createdAt: string; // ISO string
+  sentAt: string; // ISO string, empty until sent
+  receipt?: SubmissionReceipt | null; // Missing for entries queued before receipts, null when the backend sent none
+}
+
+// Acknowledgement returned by the Apps Script backend for a stored row
+export interface SubmissionReceipt {
+  submissionId: string; // Sent with the request, lets the backend answer a retry with the original receipt
+  endpointName: string;
+  url: string;
+  rowId: number; // Sheet row number
+  receivedAt: string; // Server timestamp, ISO string
+  payloadHash: string; // SHA-256 of the canonical payload, computed by the backend
+}
 
 export const INITIAL_STATE: AppState = {
+  timeZone: 'Asia/Taipei',
   calibration: {
-    emt1: { keyTime: '', aedTime: '' },
-    emt2: { keyTime: '', aedTime: '' },
-    emt3: { keyTime: '', aedTime: '' },
+    emt1: [{ keyTime: '', aedTime: '' }],
+    emt2: [{ keyTime: '', aedTime: '' }],
+    emt3: [{ keyTime: '', aedTime: '' }],
   },
   timeRecords: {
     found: { emt1: '', emt2: '', emt3: '' },
@@ -121,6 +231,17 @@ export const INITIAL_STATE: AppState = {
     rosc: { emt1: '', emt2: '', emt3: '' },
     firstShock: '',
   },
+  timeSources: {
+    found: 'auto',
+    contact: 'auto',
+    ohcaJudgment: 'auto',
+    cprStart: 'auto',
+    firstVentilation: 'auto',
+    mcprSetup: 'auto',
+    firstMed: 'auto',
+    airway: 'auto',
+    rosc: 'auto',
+  },
   basicInfo: {
     reviewer: '',
     battalion: '',
@@ -165,7 +286,17 @@ export const INITIAL_STATE: AppState = {
     postShockPauseTime: '',
   },
   interruptionRecords: {
-    beforePads: createEmptyInterruptions(5),
-    beforeMcpr: createEmptyInterruptions(10),
+    beforePads: [],
+    beforeMcpr: [],
+  },
+  interruptionTimeBase: {
+    kind: 'video',
+    videoStart: '',
+  },
+  crewRoster: {
+    shift: '',
+    appliedAt: '',
+    members: [],
+    overrides: [],
   }
 };